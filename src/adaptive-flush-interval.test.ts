@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { AdaptiveFlushInterval } from "./adaptive-flush-interval";
+
+describe("AdaptiveFlushInterval", () => {
+	it("should stretch the interval while queues stay small", () => {
+		const interval = new AdaptiveFlushInterval(2000, { maxInterval: 4000 });
+		expect(interval.current()).toBe(2000);
+		expect(interval.update({ fill: 0.01, throttled: false })).toBe(3000);
+		expect(interval.update({ fill: 0.01, throttled: false })).toBe(4000);
+	});
+
+	it("should shorten the interval as queues near a full batch", () => {
+		const interval = new AdaptiveFlushInterval(4000, { minInterval: 500 });
+		expect(interval.update({ fill: 0.5, throttled: false })).toBe(2000);
+		expect(interval.update({ fill: 1.2, throttled: false })).toBe(500);
+	});
+
+	it("should keep the interval under moderate load", () => {
+		const interval = new AdaptiveFlushInterval(3000);
+		expect(interval.update({ fill: 0.3, throttled: false })).toBe(3000);
+	});
+
+	it("should back off when throttled, even with full queues", () => {
+		const interval = new AdaptiveFlushInterval(3000);
+		expect(interval.update({ fill: 1, throttled: true })).toBe(6000);
+	});
+
+	it("should reject inverted bounds", () => {
+		expect(
+			() =>
+				new AdaptiveFlushInterval(3000, {
+					minInterval: 5000,
+					maxInterval: 1000,
+				}),
+		).toThrow("minInterval cannot be greater than maxInterval");
+	});
+});
@@ -0,0 +1,68 @@
+export type AdaptiveFlushIntervalOptions = {
+	/**
+	 * Shortest interval in milliseconds
+	 * @default The smaller of 1000 and `flushInterval`
+	 */
+	minInterval?: number;
+	/**
+	 * Longest interval in milliseconds
+	 * @default The larger of 30000 and `flushInterval`
+	 */
+	maxInterval?: number;
+};
+
+export type FlushLoad = {
+	/**
+	 * How full the fullest queue was when the timer fired, relative to CloudWatch's batch limits
+	 */
+	fill: number;
+	/**
+	 * Whether CloudWatch throttled a request since the previous flush
+	 */
+	throttled: boolean;
+};
+
+/**
+ * A flush interval that stretches while queues stay small or CloudWatch throttles,
+ * and shortens as queues fill up towards a full batch between flushes
+ */
+export class AdaptiveFlushInterval {
+	#interval: number;
+	#minInterval: number;
+	#maxInterval: number;
+
+	constructor(flushInterval: number, opts: AdaptiveFlushIntervalOptions = {}) {
+		this.#minInterval = opts.minInterval ?? Math.min(1000, flushInterval);
+		this.#maxInterval = opts.maxInterval ?? Math.max(30000, flushInterval);
+		if (this.#minInterval > this.#maxInterval) {
+			throw new Error("minInterval cannot be greater than maxInterval");
+		}
+		this.#interval = this.#clamp(flushInterval);
+	}
+
+	/**
+	 * Returns the current interval in milliseconds
+	 */
+	current(): number {
+		return this.#interval;
+	}
+
+	/**
+	 * Adjusts the interval from the load seen during the last one
+	 */
+	update({ fill, throttled }: FlushLoad): number {
+		if (throttled) {
+			this.#interval = this.#clamp(this.#interval * 2);
+		} else if (fill >= 0.5) {
+			// Flush often enough that a batch never has to wait for a full queue
+			this.#interval = this.#clamp(this.#interval * Math.max(0.25, 1 - fill));
+		} else if (fill < 0.1) {
+			this.#interval = this.#clamp(this.#interval * 1.5);
+		}
+		return this.#interval;
+	}
+
+	#clamp(interval: number): number {
+		return Math.min(this.#maxInterval, Math.max(this.#minInterval, interval));
+	}
+}
@@ -0,0 +1,176 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PassThrough } from "node:stream";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+import { type CliIo, runCli } from "./cli";
+import { FakeCloudWatchLogsServer } from "./fake-cloudwatch-logs-server";
+
+describe("runCli", () => {
+	let server: FakeCloudWatchLogsServer;
+	let stdout: string;
+	let stderr: string;
+
+	const run = (args: string[], input = "", signal?: AbortSignal) => {
+		const io: CliIo = {
+			stdin: PassThrough.from([input]),
+			stdout: new PassThrough().on("data", (chunk) => {
+				stdout += chunk;
+			}),
+			stderr: new PassThrough().on("data", (chunk) => {
+				stderr += chunk;
+			}),
+			signal,
+		};
+		return runCli(
+			[
+				...args,
+				"--log-group-name",
+				"/app",
+				"--region",
+				"us-east-1",
+				"--endpoint",
+				server.endpoint,
+			],
+			io,
+		);
+	};
+
+	beforeAll(async () => {
+		server = await FakeCloudWatchLogsServer.create();
+	});
+
+	afterAll(async () => {
+		await server.close();
+	});
+
+	beforeEach(() => {
+		server.reset();
+		stdout = "";
+		stderr = "";
+		vi.stubEnv("AWS_ACCESS_KEY_ID", "fake");
+		vi.stubEnv("AWS_SECRET_ACCESS_KEY", "fake");
+	});
+
+	afterEach(() => {
+		vi.unstubAllEnvs();
+	});
+
+	describe("ship", () => {
+		it("should send stdin lines through the transport", async () => {
+			const code = await run(
+				["ship", "--log-stream-name", "cron", "--create-log-group"],
+				'first line\n\n{"level":"error","message":"json line"}\n',
+			);
+
+			expect(code).toBe(0);
+			expect(stderr).toBe("");
+			expect(server.messages("/app", "cron").sort()).toEqual([
+				"first line",
+				'{"level":"error","message":"json line"}',
+			]);
+			// The error line is a priority entry, so it is sent in the first batch
+			const batches = server
+				.requests()
+				.filter(({ operation }) => operation === "PutLogEvents")
+				.map(({ input }) =>
+					(input.logEvents as { message: string }[]).map(
+						({ message }) => message,
+					),
+				);
+			expect(batches).toEqual([
+				['{"level":"error","message":"json line"}'],
+				["first line"],
+			]);
+		});
+
+		it("should read a file", async () => {
+			const dir = mkdtempSync(join(tmpdir(), "cli-test-"));
+			try {
+				const file = join(dir, "app.log");
+				writeFileSync(file, "line 1\nline 2\n");
+				const code = await run([
+					"ship",
+					file,
+					"--log-stream-name-strategy",
+					"daily",
+					"--log-stream-name-prefix",
+					"cron",
+					"--create-log-group",
+				]);
+
+				expect(code).toBe(0);
+				const { input } = server
+					.requests()
+					.find(({ operation }) => operation === "PutLogEvents")!;
+				expect(input.logStreamName).toMatch(/^cron-\d{4}-\d{2}-\d{2}-UTC$/);
+				expect(input.logEvents).toHaveLength(2);
+			} finally {
+				rmSync(dir, { recursive: true, force: true });
+			}
+		});
+
+		it("should fail when logs could not be sent", async () => {
+			const code = await run(["ship", "--log-stream-name", "cron"], "line 1\n");
+
+			expect(code).toBe(1);
+			expect(stderr).toContain("The specified log group does not exist.");
+		});
+	});
+
+	describe("tail", () => {
+		beforeEach(async () => {
+			await run(
+				["ship", "--log-stream-name", "cron", "--create-log-group"],
+				"ERROR disk full\nINFO ok\n",
+			);
+		});
+
+		it("should print the events of a stream", async () => {
+			const code = await run(["tail", "--log-stream-name", "cron"]);
+
+			expect(code).toBe(0);
+			expect(stdout).toBe("ERROR disk full\nINFO ok\n");
+		});
+
+		it("should print the events matching a filter", async () => {
+			const code = await run(["tail", "--filter", "ERROR", "--timestamps"]);
+
+			expect(code).toBe(0);
+			expect(stdout).toMatch(/^\d{4}-\d{2}-\d{2}T\S+Z ERROR disk full\n$/);
+		});
+
+		it("should stop following when the signal is aborted", async () => {
+			const controller = new AbortController();
+			const tail = run(
+				["tail", "--log-stream-name", "cron", "--follow"],
+				"",
+				controller.signal,
+			);
+			await vi.waitFor(() => expect(stdout).toContain("INFO ok"));
+			controller.abort();
+
+			expect(await tail).toBe(0);
+		});
+	});
+
+	describe("usage", () => {
+		it("should reject unknown commands and invalid flags", async () => {
+			expect(await run(["rotate"])).toBe(2);
+			expect(stderr).toContain("Unknown command: rotate");
+			expect(await run(["ship", "--batch-size", "many"])).toBe(2);
+			expect(stderr).toContain("--batch-size must be a non-negative number");
+			expect(await run(["ship", "--oversize-policy", "shrink"])).toBe(2);
+			expect(await run(["ship", "--unknown"])).toBe(2);
+		});
+	});
+});
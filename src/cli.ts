@@ -0,0 +1,355 @@
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { parseArgs } from "node:util";
+import type { CloudWatchLogsClientConfig } from "@aws-sdk/client-cloudwatch-logs";
+import {
+	CloudWatchLogsReader,
+	type ReadLogEvent,
+} from "./cloudwatch-logs-reader.js";
+import {
+	CloudWatchLogsTransportStream,
+	type CloudWatchLogsTransportStreamOptions,
+} from "./index.js";
+import { LEVEL_SYMBOL, MESSAGE_SYMBOL } from "./log-info.js";
+import { logStreamNameStrategies } from "./log-stream-name.js";
+import { parseTimestamp } from "./timestamp.js";
+
+export type CliIo = {
+	stdin: NodeJS.ReadableStream;
+	stdout: NodeJS.WritableStream;
+	stderr: NodeJS.WritableStream;
+	/** Stops `tail --follow` */
+	signal?: AbortSignal;
+};
+
+const USAGE = `Usage:
+  winston-cloudwatch-logs ship [file] --log-group-name <name> [options]
+      Send newline-delimited logs from a file, or stdin, to CloudWatch Logs.
+      JSON lines are sent as is, with their level and timestamp fields applied.
+  winston-cloudwatch-logs tail --log-group-name <name> [options]
+      Print the events of a log stream, or the log group events matching --filter.
+
+Common options:
+  --log-group-name <name>           Log group (required)
+  --log-stream-name <name>          Fixed log stream name
+  --log-stream-name-strategy <name> hourly (default), daily or instance
+  --log-stream-name-prefix <prefix> Prefix passed to the naming strategy
+  --region <region>                 AWS region
+  --endpoint <url>                  CloudWatch Logs endpoint
+
+ship options:
+  --level <level>                   Level of lines without one (default: info)
+  --create-log-group                Create the log group when it does not exist
+  --batch-size <count>              Flush once this many events are queued
+  --batch-size-bytes <bytes>        Flush once queued events reach this size
+  --flush-interval <ms>             Flush interval (default: 3000)
+  --max-queue-events <count>        Queue limit in events
+  --max-queue-bytes <bytes>         Queue limit in bytes
+  --overflow-policy <policy>        block (default), drop-oldest or drop-newest
+  --oversize-policy <policy>        truncate (default), split or drop
+  --timeout <ms>                    Time allowed to send queued logs at the end (default: 30000)
+
+tail options:
+  -f, --follow                      Keep printing new events
+  --start <time>                    Only events at or after this time (ISO date or epoch ms)
+  --end <time>                      Only events up to this time, with --filter
+  --filter <pattern>                CloudWatch filter pattern to search the log group with
+  --timestamps                      Prefix events with their ISO timestamp
+`;
+
+const OPTIONS = {
+	"log-group-name": { type: "string" },
+	"log-stream-name": { type: "string" },
+	"log-stream-name-strategy": { type: "string" },
+	"log-stream-name-prefix": { type: "string" },
+	region: { type: "string" },
+	endpoint: { type: "string" },
+	level: { type: "string" },
+	"create-log-group": { type: "boolean" },
+	"batch-size": { type: "string" },
+	"batch-size-bytes": { type: "string" },
+	"flush-interval": { type: "string" },
+	"max-queue-events": { type: "string" },
+	"max-queue-bytes": { type: "string" },
+	"overflow-policy": { type: "string" },
+	"oversize-policy": { type: "string" },
+	timeout: { type: "string" },
+	follow: { type: "boolean", short: "f" },
+	start: { type: "string" },
+	end: { type: "string" },
+	filter: { type: "string" },
+	timestamps: { type: "boolean" },
+	help: { type: "boolean", short: "h" },
+} as const;
+
+type CliValues = ReturnType<
+	typeof parseArgs<{ options: typeof OPTIONS; allowPositionals: true }>
+>["values"];
+
+class UsageError extends Error {}
+
+/**
+ * Runs the `winston-cloudwatch-logs` command line
+ * @returns The exit code
+ */
+export async function runCli(
+	args: string[],
+	io: CliIo = {
+		stdin: process.stdin,
+		stdout: process.stdout,
+		stderr: process.stderr,
+	},
+): Promise<number> {
+	try {
+		const { values, positionals } = parseArgs({
+			args,
+			options: OPTIONS,
+			allowPositionals: true,
+		});
+		const [command, ...rest] = positionals;
+		if (values.help || command === undefined) {
+			io.stdout.write(USAGE);
+			return values.help ? 0 : 2;
+		}
+		switch (command) {
+			case "ship":
+				if (rest.length > 1) {
+					throw new UsageError("ship reads a single file");
+				}
+				return await ship(values, rest[0], io);
+			case "tail":
+				if (rest.length > 0) {
+					throw new UsageError(`Unexpected argument: ${rest[0]}`);
+				}
+				return await tail(values, io);
+			default:
+				throw new UsageError(`Unknown command: ${command}`);
+		}
+	} catch (error) {
+		if (
+			error instanceof UsageError ||
+			(error instanceof Error &&
+				"code" in error &&
+				String(error.code).startsWith("ERR_PARSE_ARGS"))
+		) {
+			io.stderr.write(`${error.message}\n\n${USAGE}`);
+			return 2;
+		}
+		io.stderr.write(`${error instanceof Error ? error.message : error}\n`);
+		return 1;
+	}
+}
+
+async function ship(
+	values: CliValues,
+	file: string | undefined,
+	io: CliIo,
+): Promise<number> {
+	const transport = await CloudWatchLogsTransportStream.create({
+		...streamOptions(values),
+		createLogGroup: values["create-log-group"],
+		batchSize: numberOption(values, "batch-size"),
+		batchSizeBytes: numberOption(values, "batch-size-bytes"),
+		flushInterval: numberOption(values, "flush-interval"),
+		maxQueueEvents: numberOption(values, "max-queue-events"),
+		maxQueueBytes: numberOption(values, "max-queue-bytes"),
+		overflowPolicy:
+			choiceOption(values, "overflow-policy", [
+				"block",
+				"drop-oldest",
+				"drop-newest",
+			]) ?? "block",
+		oversizePolicy: choiceOption(values, "oversize-policy", [
+			"truncate",
+			"split",
+			"drop",
+		]),
+		emitErrors: true,
+		silenceConsole: true,
+	});
+	let failed = false;
+	transport.on("error", (error) => {
+		failed = true;
+		io.stderr.write(`${error.message}\n`);
+	});
+	transport.on("warn", ({ message }) => io.stderr.write(`${message}\n`));
+	transport.on("dropped", ({ reason, count }) => {
+		failed = true;
+		io.stderr.write(`Dropped ${count} events (${reason})\n`);
+	});
+
+	const level = values.level ?? "info";
+	const lines = createInterface({
+		input: file ? createReadStream(file) : io.stdin,
+		crlfDelay: Number.POSITIVE_INFINITY,
+	});
+	try {
+		for await (const line of lines) {
+			if (line.trim() === "") {
+				continue;
+			}
+			const fields = parseJsonObject(line);
+			const info = {
+				...fields,
+				level: typeof fields?.level === "string" ? fields.level : level,
+				message: line,
+			};
+			await transport.log(
+				{ ...info, [LEVEL_SYMBOL]: info.level, [MESSAGE_SYMBOL]: line },
+				() => {},
+			);
+		}
+	} finally {
+		const { unsent } = await transport.close({
+			timeout: numberOption(values, "timeout") ?? 30000,
+		});
+		if (unsent > 0) {
+			failed = true;
+		}
+	}
+	return failed ? 1 : 0;
+}
+
+async function tail(values: CliValues, io: CliIo): Promise<number> {
+	const reader = CloudWatchLogsReader.create(streamOptions(values));
+	const controller = new AbortController();
+	const abort = () => controller.abort();
+	io.signal?.addEventListener("abort", abort, { once: true });
+	const onSigint = io.signal ? null : abort;
+	if (onSigint) {
+		process.once("SIGINT", onSigint);
+	}
+	try {
+		const start = timeOption(values, "start");
+		const events: AsyncIterable<ReadLogEvent> =
+			values.filter !== undefined
+				? reader.filter(values.filter, {
+						start,
+						end: timeOption(values, "end"),
+					})
+				: reader.tail({
+						follow: values.follow,
+						start,
+						signal: controller.signal,
+					});
+		for await (const event of events) {
+			io.stdout.write(
+				values.timestamps
+					? `${new Date(event.timestamp).toISOString()} ${event.message}\n`
+					: `${event.message}\n`,
+			);
+			if (controller.signal.aborted) {
+				break;
+			}
+		}
+		return 0;
+	} finally {
+		io.signal?.removeEventListener("abort", abort);
+		if (onSigint) {
+			process.off("SIGINT", onSigint);
+		}
+		reader.close();
+	}
+}
+
+/**
+ * The options shared by `ship` and `tail`: where the logs go and how to reach CloudWatch
+ */
+function streamOptions(
+	values: CliValues,
+): Pick<
+	CloudWatchLogsTransportStreamOptions,
+	| "logGroupName"
+	| "logStreamName"
+	| "logStreamNamePrefix"
+	| "cloudWatchLogsClientConfig"
+> {
+	const logGroupName = values["log-group-name"];
+	if (!logGroupName) {
+		throw new UsageError("--log-group-name is required");
+	}
+	const strategy = choiceOption(values, "log-stream-name-strategy", [
+		"hourly",
+		"daily",
+		"instance",
+	]);
+	if (strategy && values["log-stream-name"] !== undefined) {
+		throw new UsageError(
+			"--log-stream-name and --log-stream-name-strategy cannot be used together",
+		);
+	}
+	const cloudWatchLogsClientConfig: CloudWatchLogsClientConfig = {};
+	if (values.region) {
+		cloudWatchLogsClientConfig.region = values.region;
+	}
+	if (values.endpoint) {
+		cloudWatchLogsClientConfig.endpoint = values.endpoint;
+	}
+	return {
+		logGroupName,
+		logStreamName: strategy
+			? logStreamNameStrategies[strategy]
+			: values["log-stream-name"],
+		logStreamNamePrefix: values["log-stream-name-prefix"],
+		cloudWatchLogsClientConfig,
+	};
+}
+
+function numberOption(
+	values: CliValues,
+	name: keyof CliValues,
+): number | undefined {
+	const value = values[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	const number = Number(value);
+	if (typeof value !== "string" || value.trim() === "" || !(number >= 0)) {
+		throw new UsageError(`--${name} must be a non-negative number`);
+	}
+	return number;
+}
+
+function choiceOption<T extends string>(
+	values: CliValues,
+	name: keyof CliValues,
+	choices: readonly T[],
+): T | undefined {
+	const value = values[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	if (!choices.includes(value as T)) {
+		throw new UsageError(`--${name} must be one of ${choices.join(", ")}`);
+	}
+	return value as T;
+}
+
+function timeOption(
+	values: CliValues,
+	name: "start" | "end",
+): number | undefined {
+	const value = values[name];
+	if (value === undefined) {
+		return undefined;
+	}
+	const timestamp = parseTimestamp(value);
+	if (timestamp === undefined) {
+		throw new UsageError(`--${name} must be an ISO date or epoch milliseconds`);
+	}
+	return timestamp;
+}
+
+function parseJsonObject(line: string): Record<string, unknown> | undefined {
+	if (!line.trimStart().startsWith("{")) {
+		return undefined;
+	}
+	try {
+		const value = JSON.parse(line);
+		return typeof value === "object" && value !== null && !Array.isArray(value)
+			? value
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,216 @@
+import {
+	CloudWatchLogsClient,
+	CreateLogGroupCommand,
+	CreateLogStreamCommand,
+	PutLogEventsCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+import {
+	afterAll,
+	afterEach,
+	beforeAll,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from "vitest";
+import {
+	CloudWatchLogsReader,
+	type ReadLogEvent,
+} from "./cloudwatch-logs-reader";
+import { FakeCloudWatchLogsServer } from "./fake-cloudwatch-logs-server";
+
+describe("CloudWatchLogsReader", () => {
+	let server: FakeCloudWatchLogsServer;
+	let client: CloudWatchLogsClient;
+	let reader: CloudWatchLogsReader;
+
+	const put = async (logStreamName: string, messages: string[]) => {
+		const now = Date.now();
+		await client.send(
+			new PutLogEventsCommand({
+				logGroupName: "/app",
+				logStreamName,
+				logEvents: messages.map((message, index) => ({
+					message,
+					timestamp: now + index,
+				})),
+			}),
+		);
+	};
+
+	const collect = async (events: AsyncIterable<ReadLogEvent>) => {
+		const collected: ReadLogEvent[] = [];
+		for await (const event of events) {
+			collected.push(event);
+		}
+		return collected;
+	};
+
+	beforeAll(async () => {
+		server = await FakeCloudWatchLogsServer.create();
+		client = new CloudWatchLogsClient(server.clientConfig);
+	});
+
+	afterAll(async () => {
+		client.destroy();
+		await server.close();
+	});
+
+	beforeEach(async () => {
+		server.reset();
+		await client.send(new CreateLogGroupCommand({ logGroupName: "/app" }));
+		for (const logStreamName of ["app-current", "other"]) {
+			await client.send(
+				new CreateLogStreamCommand({ logGroupName: "/app", logStreamName }),
+			);
+		}
+		reader = CloudWatchLogsReader.create({
+			logGroupName: "/app",
+			logStreamName: ({ prefix }) => `${prefix}-current`,
+			logStreamNamePrefix: "app",
+			cloudWatchLogsClientConfig: server.clientConfig,
+		});
+	});
+
+	afterEach(() => {
+		reader.close();
+	});
+
+	describe("tail", () => {
+		it("should read the current stream of the naming scheme", async () => {
+			await put("app-current", ["message 1", '{"level":"info","id":2}']);
+			await put("other", ["elsewhere"]);
+
+			const events = await collect(reader.tail());
+			expect(events).toEqual([
+				{
+					logStreamName: "app-current",
+					timestamp: expect.any(Number),
+					message: "message 1",
+				},
+				{
+					logStreamName: "app-current",
+					timestamp: expect.any(Number),
+					message: '{"level":"info","id":2}',
+					data: { level: "info", id: 2 },
+				},
+			]);
+		});
+
+		it("should read a stream that does not exist yet as empty", async () => {
+			expect(await collect(reader.tail({ logStreamName: "missing" }))).toEqual(
+				[],
+			);
+		});
+
+		it("should keep reading new events when following", async () => {
+			await put("app-current", ["message 1"]);
+			const controller = new AbortController();
+			const messages: string[] = [];
+
+			for await (const event of reader.tail({
+				follow: true,
+				pollInterval: 10,
+				signal: controller.signal,
+			})) {
+				messages.push(event.message);
+				if (messages.length === 1) {
+					await put("app-current", ["message 2"]);
+				} else {
+					controller.abort();
+				}
+			}
+			expect(messages).toEqual(["message 1", "message 2"]);
+		});
+
+		it("should read the previous stream to the end when the stream rotates", async () => {
+			let current = "app-current";
+			const rotating = CloudWatchLogsReader.create({
+				logGroupName: "/app",
+				logStreamName: () => current,
+				cloudWatchLogsClientConfig: server.clientConfig,
+			});
+			await client.send(
+				new CreateLogStreamCommand({
+					logGroupName: "/app",
+					logStreamName: "app-next",
+				}),
+			);
+			await put("app-current", ["message 1"]);
+			const controller = new AbortController();
+			const events = rotating.tail({
+				follow: true,
+				pollInterval: 500,
+				signal: controller.signal,
+			});
+			const messages = [(await events.next()).value.message];
+			const next = events.next();
+			// Rotate while the reader waits at the end of the previous stream
+			await vi.waitFor(() =>
+				expect(
+					server
+						.requests()
+						.filter(({ operation }) => operation === "GetLogEvents"),
+				).toHaveLength(2),
+			);
+			await put("app-current", ["message 2"]);
+			await put("app-next", ["message 3"]);
+			current = "app-next";
+			messages.push((await next).value.message);
+			messages.push((await events.next()).value.message);
+			controller.abort();
+			await events.return(undefined);
+			rotating.close();
+			expect(messages).toEqual(["message 1", "message 2", "message 3"]);
+		});
+	});
+
+	describe("filter", () => {
+		it("should search every stream of the group", async () => {
+			await put("app-current", ["ERROR disk full", "INFO ok"]);
+			await put("other", ["ERROR timeout"]);
+
+			const events = await collect(reader.filter("ERROR"));
+			expect(events.map(({ message }) => message).sort()).toEqual([
+				"ERROR disk full",
+				"ERROR timeout",
+			]);
+		});
+
+		it("should follow pagination and stop at the limit", async () => {
+			for (let i = 0; i < 3; i++) {
+				await put(
+					"other",
+					Array.from({ length: 10000 }, () => `message ${i}`),
+				);
+			}
+
+			const events = await collect(reader.filter("", { limit: 15000 }));
+			expect(events).toHaveLength(15000);
+			expect(
+				server
+					.requests()
+					.filter(({ operation }) => operation === "FilterLogEvents"),
+			).toHaveLength(2);
+		});
+
+		it("should only return events within the time range", async () => {
+			await client.send(
+				new PutLogEventsCommand({
+					logGroupName: "/app",
+					logStreamName: "other",
+					logEvents: [
+						{ message: "before", timestamp: Date.now() - 2000 },
+						{ message: "within", timestamp: Date.now() - 1000 },
+					],
+				}),
+			);
+
+			const events = await collect(
+				reader.filter("", { start: Date.now() - 1500, end: new Date() }),
+			);
+			expect(events.map(({ message }) => message)).toEqual(["within"]);
+		});
+	});
+});
@@ -0,0 +1,264 @@
+import {
+	CloudWatchLogsClient,
+	type CloudWatchLogsClientConfig,
+	FilterLogEventsCommand,
+	GetLogEventsCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+import { isResourceNotFound } from "./log-group.js";
+import { LogStreamGenerator } from "./log-stream-generator.js";
+import type { LogStreamNameStrategy } from "./log-stream-name.js";
+import { parseTimestamp } from "./timestamp.js";
+
+export type CloudWatchLogsReaderOptions = {
+	logGroupName: string;
+	/**
+	 * The log stream name or naming strategy the transport writes with, to find its current stream
+	 * @default logStreamNameStrategies.hourly
+	 */
+	logStreamName?: string | LogStreamNameStrategy;
+	logStreamNamePrefix?: string;
+	cloudWatchLogsClientConfig?: CloudWatchLogsClientConfig;
+};
+
+export type ReadLogEvent = {
+	logStreamName: string;
+	/** Epoch milliseconds */
+	timestamp: number;
+	message: string;
+	/** The message parsed back into an object or array when it is JSON, e.g. sent with the `"json"` formatter */
+	data?: unknown;
+};
+
+export type TailOptions = {
+	/**
+	 * Keep waiting for new events, moving on to the next stream when the naming strategy rotates,
+	 * until `signal` is aborted
+	 * @default false
+	 */
+	follow?: boolean;
+	/**
+	 * Stream to read. Defaults to the current stream of the naming scheme.
+	 */
+	logStreamName?: string;
+	/**
+	 * Only read events at or after this time
+	 */
+	start?: Date | number | string;
+	/**
+	 * Milliseconds between polls while following
+	 * @default 1000
+	 */
+	pollInterval?: number;
+	signal?: AbortSignal;
+};
+
+export type FilterOptions = {
+	start?: Date | number | string;
+	end?: Date | number | string;
+	/**
+	 * Only search these streams. Every stream of the group is searched by default.
+	 */
+	logStreamNames?: string[];
+	/**
+	 * Stop after this many events
+	 */
+	limit?: number;
+};
+
+/**
+ * Reads back what the transport sent: tails the current log stream and searches the log group.
+ * Both return async iterators that fetch the next page as they are consumed.
+ * @example
+ * const reader = CloudWatchLogsReader.create({ logGroupName: "app" });
+ * for await (const event of reader.filter("ERROR", { start: Date.now() - 3600000 })) {
+ *   console.log(event.data ?? event.message);
+ * }
+ */
+export class CloudWatchLogsReader {
+	#client: CloudWatchLogsClient;
+	#logGroupName: string;
+	#logStreamGenerator: LogStreamGenerator;
+
+	private constructor(opts: CloudWatchLogsReaderOptions) {
+		this.#client = new CloudWatchLogsClient(
+			opts.cloudWatchLogsClientConfig ?? {},
+		);
+		this.#logGroupName = opts.logGroupName;
+		this.#logStreamGenerator = LogStreamGenerator.create(
+			this.#client,
+			opts.logGroupName,
+			{
+				logStreamName: opts.logStreamName,
+				logStreamNamePrefix: opts.logStreamNamePrefix,
+			},
+		);
+	}
+
+	static create(opts: CloudWatchLogsReaderOptions): CloudWatchLogsReader {
+		return new CloudWatchLogsReader(opts);
+	}
+
+	/**
+	 * Reads a log stream from the start (or `start`) with GetLogEvents.
+	 * A stream that does not exist yet is read as empty, and waited for when following.
+	 */
+	async *tail(opts: TailOptions = {}): AsyncGenerator<ReadLogEvent> {
+		const { follow = false, pollInterval = 1000, signal } = opts;
+		const startTime =
+			opts.start !== undefined ? parseTimestamp(opts.start) : undefined;
+		let logStreamName =
+			opts.logStreamName ?? this.#logStreamGenerator.generateLogStreamName();
+		let nextToken: string | undefined;
+		/** The stream to move on to once the current one is read to the end */
+		let nextLogStreamName: string | null = null;
+
+		while (!signal?.aborted) {
+			const page = await this.#getLogEvents(
+				logStreamName,
+				startTime,
+				nextToken,
+			);
+			for (const event of page.events) {
+				yield this.#toReadLogEvent(logStreamName, event);
+			}
+			// The forward token stays the same once the end of the stream is reached
+			const reachedEnd =
+				page.nextToken === undefined || page.nextToken === nextToken;
+			nextToken = page.nextToken ?? nextToken;
+			if (!reachedEnd) {
+				continue;
+			}
+			if (nextLogStreamName !== null) {
+				logStreamName = nextLogStreamName;
+				nextLogStreamName = null;
+				nextToken = undefined;
+				continue;
+			}
+			if (!follow) {
+				return;
+			}
+			await sleep(pollInterval, signal);
+			if (opts.logStreamName === undefined) {
+				const current = this.#logStreamGenerator.generateLogStreamName();
+				if (current !== logStreamName) {
+					// Read what was sent to the previous stream since the last poll before moving on
+					nextLogStreamName = current;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Searches the log group with FilterLogEvents, e.g. `filter("ERROR")` or `filter('{ $.level = "error" }')`
+	 * @param pattern CloudWatch filter pattern. An empty pattern matches every event.
+	 */
+	async *filter(
+		pattern: string,
+		opts: FilterOptions = {},
+	): AsyncGenerator<ReadLogEvent> {
+		let remaining = opts.limit ?? Number.POSITIVE_INFINITY;
+		let nextToken: string | undefined;
+		do {
+			const response = await this.#client.send(
+				new FilterLogEventsCommand({
+					logGroupName: this.#logGroupName,
+					logStreamNames: opts.logStreamNames,
+					filterPattern: pattern || undefined,
+					startTime:
+						opts.start !== undefined ? parseTimestamp(opts.start) : undefined,
+					endTime:
+						opts.end !== undefined ? parseTimestamp(opts.end) : undefined,
+					nextToken,
+				}),
+			);
+			for (const event of response.events ?? []) {
+				if (remaining-- <= 0) {
+					return;
+				}
+				yield this.#toReadLogEvent(event.logStreamName ?? "", event);
+			}
+			nextToken = response.nextToken;
+		} while (nextToken && remaining > 0);
+	}
+
+	/**
+	 * Releases the client's connections
+	 */
+	close(): void {
+		this.#client.destroy();
+	}
+
+	async #getLogEvents(
+		logStreamName: string,
+		startTime: number | undefined,
+		nextToken: string | undefined,
+	): Promise<{
+		events: { timestamp?: number; message?: string }[];
+		nextToken: string | undefined;
+	}> {
+		try {
+			const response = await this.#client.send(
+				new GetLogEventsCommand({
+					logGroupName: this.#logGroupName,
+					logStreamName,
+					startTime,
+					startFromHead: true,
+					nextToken,
+				}),
+			);
+			return {
+				events: response.events ?? [],
+				nextToken: response.nextForwardToken,
+			};
+		} catch (error) {
+			if (isResourceNotFound(error)) {
+				return { events: [], nextToken };
+			}
+			throw error;
+		}
+	}
+
+	#toReadLogEvent(
+		logStreamName: string,
+		event: { timestamp?: number; message?: string },
+	): ReadLogEvent {
+		const message = event.message ?? "";
+		const readLogEvent: ReadLogEvent = {
+			logStreamName,
+			timestamp: event.timestamp ?? 0,
+			message,
+		};
+		const data = parseJson(message);
+		if (data !== undefined) {
+			readLogEvent.data = data;
+		}
+		return readLogEvent;
+	}
+}
+
+/**
+ * Parses messages that look like a JSON object or array, ignoring the others
+ */
+function parseJson(message: string): unknown {
+	const trimmed = message.trim();
+	if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) {
+		return undefined;
+	}
+	try {
+		return JSON.parse(trimmed);
+	} catch {
+		return undefined;
+	}
+}
+
+async function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	await new Promise<void>((resolve) => {
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done, { once: true });
+		function done() {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		}
+	});
+}
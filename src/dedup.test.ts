@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { getDedupKeyFunction, messageTemplate } from "./dedup";
+
+describe("messageTemplate", () => {
+	it("should mask numbers, UUIDs, hex strings and timestamps", () => {
+		expect(
+			messageTemplate(
+				"request 0b6f2e1c-5d3a-4c1e-9f7a-2b8c4d6e8f01 to 0x1f3a took 12.5ms at 2024-01-01T00:00:00.000Z",
+			),
+		).toBe("request <*> to <*> took <*>ms at <*>");
+	});
+
+	it("should leave words alone", () => {
+		expect(messageTemplate("user logged in")).toBe("user logged in");
+	});
+});
+
+describe("getDedupKeyFunction", () => {
+	it("should use the full message by default", () => {
+		expect(getDedupKeyFunction(undefined)("retry 1")).toBe("retry 1");
+	});
+
+	it("should use a custom key function", () => {
+		const key = (message: string) => message.split(":")[0]!;
+		expect(getDedupKeyFunction(key)("error: boom")).toBe("error");
+	});
+});
@@ -0,0 +1,53 @@
+export type DedupOptions = {
+	/**
+	 * Time span in milliseconds, from the first occurrence, during which identical messages are collapsed
+	 */
+	window: number;
+	/**
+	 * What makes two messages identical.
+	 * - `"message"`: the full message
+	 * - `"template"`: the message with numbers, UUIDs, hex strings and timestamps masked, so `retry 1 of 5` and `retry 2 of 5` match
+	 * - a function returning the key of a message
+	 * @default "message"
+	 */
+	key?: "message" | "template" | ((message: string) => string);
+};
+
+const TEMPLATE_PATTERNS: RegExp[] = [
+	/\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:Z|[+-]\d{2}:?\d{2})?/g,
+	/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi,
+	/\b0x[0-9a-f]+\b|\b[0-9a-f]{16,}\b/gi,
+	/\d+(?:\.\d+)?/g,
+];
+
+/**
+ * Masks the variable parts of a message
+ */
+export function messageTemplate(message: string): string {
+	let template = message;
+	for (const pattern of TEMPLATE_PATTERNS) {
+		template = template.replace(pattern, "<*>");
+	}
+	return template;
+}
+
+export function getDedupKeyFunction(
+	key: DedupOptions["key"],
+): (message: string) => string {
+	if (typeof key === "function") {
+		return key;
+	}
+	return key === "template" ? messageTemplate : (message) => message;
+}
+
+/**
+ * Appends the repeat count and the first and last timestamps to a collapsed message
+ */
+export function formatRepeatedMessage(
+	message: string,
+	count: number,
+	first: number,
+	last: number,
+): string {
+	return `${message} [repeated ${count} times, first ${new Date(first).toISOString()}, last ${new Date(last).toISOString()}]`;
+}
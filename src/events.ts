@@ -0,0 +1,71 @@
+import type { RejectedLogEvents } from "./rejected-log-events.js";
+import type { SuppressedLogEntries } from "./sampler.js";
+import type { TransportStats } from "./stats.js";
+
+export type DroppedLogEvents = {
+	/**
+	 * `"overflow"` when the queue was full, `"oversize"` when a message over the per-event limit was dropped,
+	 * `"failed"` when a batch failed with a permanent error or ran out of retries,
+	 * `"closed"` when a log entry arrived after the transport started closing
+	 */
+	reason: "overflow" | "oversize" | "failed" | "closed";
+	count: number;
+	logGroupName: string;
+};
+
+export type FlushedLogEvents = {
+	/** Number of events in the batch */
+	count: number;
+	/** Size of the batch in bytes, including the per-event overhead */
+	bytes: number;
+	logGroupName: string;
+	logStreamName: string;
+};
+
+export type CreatedLogStream = {
+	logGroupName: string;
+	logStreamName: string;
+};
+
+export type TransportWarning = {
+	message: string;
+	error?: unknown;
+};
+
+/**
+ * Events emitted by the transport, with the arguments passed to their listeners
+ */
+export type CloudWatchLogsTransportEvents = {
+	/**
+	 * A batch could not be sent, or a log entry could not be queued. Only emitted with `emitErrors`;
+	 * otherwise these failures are reported as `warn` events.
+	 */
+	error: [error: Error];
+	/** A batch was accepted by CloudWatch */
+	flushed: [flushed: FlushedLogEvents];
+	/** The transport created a log stream */
+	streamCreated: [created: CreatedLogStream];
+	dropped: [dropped: DroppedLogEvents];
+	rejected: [rejected: RejectedLogEvents];
+	stats: [stats: TransportStats];
+	/** Entries with the same key were suppressed by the sampling rate limit */
+	suppressed: [suppressed: SuppressedLogEntries];
+	/**
+	 * Something went wrong, such as a batch scheduled for retry, or a failure when `emitErrors` is not set.
+	 * Without a listener the warning is written to the console instead.
+	 */
+	warn: [warning: TransportWarning];
+};
+
+/**
+ * Arguments of a transport event. Other events, such as the stream events, are left untyped.
+ */
+export type TransportEventArgs<E extends string | symbol> =
+	E extends keyof CloudWatchLogsTransportEvents
+		? CloudWatchLogsTransportEvents[E]
+		: unknown[];
+
+export type TransportEventListener<E extends string | symbol> =
+	E extends keyof CloudWatchLogsTransportEvents
+		? (...args: CloudWatchLogsTransportEvents[E]) => void
+		: (...args: never[]) => void;
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { hookExitSignals } from "./exit-signals";
+
+describe("hookExitSignals", () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it("should drain and raise the signal again", async () => {
+		const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+		const drain = vi.fn().mockResolvedValue(undefined);
+		const before = process.listenerCount("SIGTERM");
+		hookExitSignals(drain);
+
+		process.emit("SIGTERM", "SIGTERM");
+		await vi.waitFor(() =>
+			expect(kill).toHaveBeenCalledWith(process.pid, "SIGTERM"),
+		);
+		expect(drain).toHaveBeenCalledTimes(1);
+
+		// The hooks are removed after the first signal
+		expect(process.listenerCount("SIGTERM")).toBe(before);
+	});
+
+	it("should leave the signal to the application when it listens to it", async () => {
+		const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+		const drain = vi.fn().mockResolvedValue(undefined);
+		const appListener = vi.fn();
+		process.on("SIGINT", appListener);
+		hookExitSignals(drain);
+
+		process.emit("SIGINT", "SIGINT");
+		await vi.waitFor(() => expect(drain).toHaveBeenCalled());
+		await Promise.resolve();
+		expect(kill).not.toHaveBeenCalled();
+		expect(appListener).toHaveBeenCalled();
+
+		process.off("SIGINT", appListener);
+	});
+
+	it("should wait for every hooked drain before raising the signal", async () => {
+		const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+		let finishSlow: (() => void) | undefined;
+		const slow = vi.fn(
+			() =>
+				new Promise<void>((resolve) => {
+					finishSlow = resolve;
+				}),
+		);
+		const fast = vi.fn().mockResolvedValue(undefined);
+		hookExitSignals(slow);
+		hookExitSignals(fast);
+
+		process.emit("SIGTERM", "SIGTERM");
+		await vi.waitFor(() => expect(fast).toHaveBeenCalled());
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(slow).toHaveBeenCalled();
+		expect(kill).not.toHaveBeenCalled();
+
+		finishSlow?.();
+		await vi.waitFor(() =>
+			expect(kill).toHaveBeenCalledWith(process.pid, "SIGTERM"),
+		);
+	});
+
+	it("should raise the signal again when a drain fails", async () => {
+		const kill = vi.spyOn(process, "kill").mockImplementation(() => true);
+		const failing = vi.fn().mockRejectedValue(new Error("spool closed"));
+		const other = vi.fn().mockResolvedValue(undefined);
+		hookExitSignals(failing);
+		hookExitSignals(other);
+
+		process.emit("SIGTERM", "SIGTERM");
+		await vi.waitFor(() =>
+			expect(kill).toHaveBeenCalledWith(process.pid, "SIGTERM"),
+		);
+		expect(other).toHaveBeenCalled();
+	});
+
+	it("should drain before exit", () => {
+		const drain = vi.fn().mockResolvedValue(undefined);
+		hookExitSignals(drain);
+
+		process.emit("beforeExit", 0);
+		process.emit("beforeExit", 0);
+		expect(drain).toHaveBeenCalledTimes(1);
+	});
+
+	it("should remove the hooks", () => {
+		const before = process.listenerCount("SIGTERM");
+		const unhook = hookExitSignals(vi.fn());
+		const unhookOther = hookExitSignals(vi.fn());
+		// One listener serves every hooked drain
+		expect(process.listenerCount("SIGTERM")).toBe(before + 1);
+		unhook();
+		expect(process.listenerCount("SIGTERM")).toBe(before + 1);
+		unhookOther();
+		expect(process.listenerCount("SIGTERM")).toBe(before);
+	});
+});
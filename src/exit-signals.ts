@@ -0,0 +1,70 @@
+export type ExitSignalOptions = {
+	/**
+	 * Time in milliseconds to drain the queue before the process is allowed to exit
+	 * @default 10000
+	 */
+	timeout?: number;
+};
+
+const EXIT_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+
+/**
+ * The drains of every hooked transport. A single set of process listeners serves them all,
+ * so the signal is only raised again once every one of them is done.
+ */
+const drains = new Set<() => Promise<unknown>>();
+
+/**
+ * Runs `drain` on SIGTERM, SIGINT and `beforeExit`, once. After a signal, the signal is raised again
+ * when every hooked drain is done, unless the application listens to it too, so the process exits as it would have.
+ * A drain that rejects does not stop the others; report its failure from `drain` itself.
+ * @returns A function removing the hook
+ */
+export function hookExitSignals(drain: () => Promise<unknown>): () => void {
+	// Wrapped, so the same function can be hooked twice and unhooked separately
+	const entry = () => drain();
+	if (drains.size === 0) {
+		for (const signal of EXIT_SIGNALS) {
+			process.on(signal, onSignal);
+		}
+		process.on("beforeExit", onBeforeExit);
+	}
+	drains.add(entry);
+	return () => {
+		if (drains.delete(entry) && drains.size === 0) {
+			removeListeners();
+		}
+	};
+}
+
+function removeListeners() {
+	for (const signal of EXIT_SIGNALS) {
+		process.off(signal, onSignal);
+	}
+	process.off("beforeExit", onBeforeExit);
+}
+
+/**
+ * Runs every hooked drain once and removes the hooks
+ */
+function drainAll(): Promise<unknown> {
+	const pending = [...drains];
+	drains.clear();
+	removeListeners();
+	return Promise.allSettled(
+		pending.map(async (drain) => {
+			await drain();
+		}),
+	);
+}
+
+async function onSignal(signal: NodeJS.Signals) {
+	await drainAll();
+	if (process.listenerCount(signal) === 0) {
+		process.kill(process.pid, signal);
+	}
+}
+
+function onBeforeExit() {
+	drainAll();
+}
@@ -0,0 +1,262 @@
+import {
+	CloudWatchLogsClient,
+	CreateLogGroupCommand,
+	CreateLogStreamCommand,
+	GetLogEventsCommand,
+	PutLogEventsCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { FakeCloudWatchLogsServer } from "./fake-cloudwatch-logs-server";
+import { CloudWatchLogsTransportStream } from "./index";
+
+describe("FakeCloudWatchLogsServer", () => {
+	let server: FakeCloudWatchLogsServer;
+	let client: CloudWatchLogsClient;
+
+	beforeAll(async () => {
+		server = await FakeCloudWatchLogsServer.create();
+		client = new CloudWatchLogsClient(server.clientConfig);
+	});
+
+	afterAll(async () => {
+		client.destroy();
+		await server.close();
+	});
+
+	beforeEach(() => {
+		server.reset();
+	});
+
+	it("should deliver logs sent by the transport end to end", async () => {
+		const transport = await CloudWatchLogsTransportStream.create({
+			logGroupName: "/app",
+			logStreamName: "stream",
+			createLogGroup: true,
+			cloudWatchLogsClientConfig: server.clientConfig,
+		});
+		await transport.log("message 1", () => {});
+		await transport.log("message 2", () => {});
+		await transport.close();
+
+		expect(server.messages("/app", "stream")).toEqual([
+			"message 1",
+			"message 2",
+		]);
+		expect(server.requests().map(({ operation }) => operation)).toEqual([
+			"DescribeLogStreams",
+			"CreateLogGroup",
+			"CreateLogStream",
+			"PutLogEvents",
+		]);
+
+		const { events } = await client.send(
+			new GetLogEventsCommand({
+				logGroupName: "/app",
+				logStreamName: "stream",
+				startFromHead: true,
+			}),
+		);
+		expect(events?.map(({ message }) => message)).toEqual([
+			"message 1",
+			"message 2",
+		]);
+	});
+
+	it("should reject unknown log groups", async () => {
+		await expect(
+			client.send(
+				new PutLogEventsCommand({
+					logGroupName: "/missing",
+					logStreamName: "stream",
+					logEvents: [{ message: "message", timestamp: Date.now() }],
+				}),
+			),
+		).rejects.toMatchObject({ name: "ResourceNotFoundException" });
+	});
+
+	it("should enforce the batch limits", async () => {
+		await client.send(new CreateLogGroupCommand({ logGroupName: "/app" }));
+		await client.send(
+			new CreateLogStreamCommand({
+				logGroupName: "/app",
+				logStreamName: "stream",
+			}),
+		);
+		const now = Date.now();
+
+		await expect(
+			client.send(
+				new PutLogEventsCommand({
+					logGroupName: "/app",
+					logStreamName: "stream",
+					logEvents: [
+						{ message: "second", timestamp: now },
+						{ message: "first", timestamp: now - 1000 },
+					],
+				}),
+			),
+		).rejects.toMatchObject({ name: "InvalidParameterException" });
+
+		const tooOld = await client.send(
+			new PutLogEventsCommand({
+				logGroupName: "/app",
+				logStreamName: "stream",
+				logEvents: [
+					{ message: "too old", timestamp: now - 15 * 24 * 60 * 60 * 1000 },
+				],
+			}),
+		);
+		expect(tooOld.rejectedLogEventsInfo).toEqual({ tooOldLogEventEndIndex: 1 });
+		const tooNew = await client.send(
+			new PutLogEventsCommand({
+				logGroupName: "/app",
+				logStreamName: "stream",
+				logEvents: [
+					{ message: "ok", timestamp: now },
+					{ message: "too new", timestamp: now + 3 * 60 * 60 * 1000 },
+				],
+			}),
+		);
+		expect(tooNew.rejectedLogEventsInfo).toEqual({
+			tooNewLogEventStartIndex: 1,
+		});
+		expect(server.messages("/app", "stream")).toEqual(["ok"]);
+
+		await expect(
+			client.send(
+				new PutLogEventsCommand({
+					logGroupName: "/app",
+					logStreamName: "stream",
+					logEvents: [{ message: "x".repeat(1048576 - 25), timestamp: now }],
+				}),
+			),
+		).rejects.toMatchObject({
+			name: "InvalidParameterException",
+			message: expect.stringContaining("Log event too large"),
+		});
+	});
+
+	it("should accept the events the transport splits from an oversized message", async () => {
+		const transport = await CloudWatchLogsTransportStream.create({
+			logGroupName: "/app",
+			logStreamName: "stream",
+			createLogGroup: true,
+			oversizePolicy: "split",
+			cloudWatchLogsClientConfig: server.clientConfig,
+		});
+		const message = "x".repeat(1048576 * 2);
+		await transport.log(message, () => {});
+		const { unsent } = await transport.close();
+
+		expect(unsent).toBe(0);
+		const messages = server.messages("/app", "stream");
+		expect(messages).toHaveLength(3);
+		expect(
+			messages
+				.map((part) => part.replace(/^\[[^\]]+\] \[\d+\/3\] /, ""))
+				.join(""),
+		).toBe(message);
+	});
+
+	it("should only create the log group when it is missing", async () => {
+		await client.send(new CreateLogGroupCommand({ logGroupName: "/app" }));
+		server.injectFault({
+			operation: "CreateLogGroup",
+			error: { statusCode: 400, type: "AccessDeniedException" },
+			times: 10,
+		});
+		const transport = await CloudWatchLogsTransportStream.create({
+			logGroupName: "/app",
+			logStreamName: "stream",
+			createLogGroup: true,
+			cloudWatchLogsClientConfig: server.clientConfig,
+		});
+
+		await transport.log("message 1", () => {});
+		const first = await transport.flush();
+		await transport.log("message 2", () => {});
+		const second = await transport.flush();
+		await transport.close();
+
+		expect([...first.batches, ...second.batches]).toMatchObject([
+			{ status: "sent" },
+			{ status: "sent" },
+		]);
+		expect(server.messages("/app", "stream")).toEqual([
+			"message 1",
+			"message 2",
+		]);
+	});
+
+	it("should recreate a log group deleted while sending", async () => {
+		const transport = await CloudWatchLogsTransportStream.create({
+			logGroupName: "/app",
+			logStreamName: "stream",
+			createLogGroup: true,
+			cloudWatchLogsClientConfig: server.clientConfig,
+		});
+		await transport.log("message 1", () => {});
+		await transport.flush();
+		server.reset();
+
+		await transport.log("message 2", () => {});
+		const { batches } = await transport.flush();
+		await transport.close();
+
+		expect(batches).toMatchObject([{ status: "retrying" }, { status: "sent" }]);
+		expect(server.messages("/app", "stream")).toEqual(["message 2"]);
+	});
+
+	it("should reject parameters of the wrong type", async () => {
+		await client.send(new CreateLogGroupCommand({ logGroupName: "/app" }));
+		const response = await fetch(server.endpoint, {
+			method: "POST",
+			headers: {
+				"content-type": "application/x-amz-json-1.1",
+				"x-amz-target": "Logs_20140328.PutRetentionPolicy",
+			},
+			body: JSON.stringify({ logGroupName: "/app", retentionInDays: "14" }),
+		});
+
+		expect(response.status).toBe(400);
+		expect(await response.json()).toEqual({
+			__type: "InvalidParameterException",
+			message: "retentionInDays must be a number",
+		});
+	});
+
+	it("should fail requests with injected faults", async () => {
+		const transport = await CloudWatchLogsTransportStream.create({
+			logGroupName: "/app",
+			logStreamName: "stream",
+			createLogGroup: true,
+			cloudWatchLogsClientConfig: server.clientConfig,
+			retryOptions: { baseDelay: 1, jitter: false },
+		});
+		transport.on("warn", () => {});
+		server.injectFault({ operation: "PutLogEvents", error: "throttling" });
+		server.injectFault({ operation: "PutLogEvents", error: "serverError" });
+
+		await transport.log("message 1", () => {});
+		const first = await transport.flush();
+		expect(first.batches).toMatchObject([
+			{ status: "retrying", error: { name: "ThrottlingException" } },
+		]);
+		const second = await transport.flush();
+		expect(second.batches).toMatchObject([
+			{
+				status: "retrying",
+				error: {
+					name: "ServiceUnavailableException",
+					$metadata: { httpStatusCode: 500 },
+				},
+			},
+		]);
+		await expect(transport.flush()).resolves.toMatchObject({
+			batches: [{ status: "sent" }],
+		});
+		await transport.close();
+
+		expect(server.messages("/app", "stream")).toEqual(["message 1"]);
+	});
+});
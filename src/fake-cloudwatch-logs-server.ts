@@ -0,0 +1,618 @@
+import { randomUUID } from "node:crypto";
+import {
+	type IncomingMessage,
+	type Server,
+	type ServerResponse,
+	createServer,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type {
+	CloudWatchLogsClientConfig,
+	InputLogEvent,
+	OutputLogEvent,
+	RejectedLogEventsInfo,
+} from "@aws-sdk/client-cloudwatch-logs";
+
+export type FakeCloudWatchLogsOperation =
+	| "CreateLogGroup"
+	| "CreateLogStream"
+	| "DescribeLogStreams"
+	| "PutRetentionPolicy"
+	| "PutLogEvents"
+	| "GetLogEvents"
+	| "FilterLogEvents";
+
+export type FakeCloudWatchLogsFault = {
+	/**
+	 * Operation to fail. Every operation fails when omitted.
+	 */
+	operation?: FakeCloudWatchLogsOperation;
+	/**
+	 * `"throttling"` answers with a ThrottlingException, `"serverError"` with a 500 ServiceUnavailableException
+	 */
+	error:
+		| "throttling"
+		| "serverError"
+		| { statusCode: number; type: string; message?: string };
+	/**
+	 * Number of requests to fail
+	 * @default 1
+	 */
+	times?: number;
+};
+
+export type FakeCloudWatchLogsRequest = {
+	operation: string;
+	input: Record<string, unknown>;
+};
+
+type StoredLogStream = {
+	creationTime: number;
+	events: (OutputLogEvent & { timestamp: number; message: string })[];
+};
+
+type StoredLogGroup = {
+	creationTime: number;
+	retentionInDays: number | undefined;
+	streams: Map<string, StoredLogStream>;
+};
+
+class ServiceError extends Error {
+	constructor(
+		readonly type: string,
+		message: string,
+		readonly statusCode = 400,
+	) {
+		super(message);
+	}
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function invalidParameter(name: string, type: string): ServiceError {
+	return new ServiceError(
+		"InvalidParameterException",
+		`${name} must be ${type}`,
+	);
+}
+
+function stringParam(
+	input: Record<string, unknown>,
+	name: string,
+): string | undefined {
+	const value = input[name];
+	if (value === undefined || typeof value === "string") {
+		return value;
+	}
+	throw invalidParameter(name, "a string");
+}
+
+function numberParam(
+	input: Record<string, unknown>,
+	name: string,
+): number | undefined {
+	const value = input[name];
+	if (value === undefined || typeof value === "number") {
+		return value;
+	}
+	throw invalidParameter(name, "a number");
+}
+
+function booleanParam(
+	input: Record<string, unknown>,
+	name: string,
+): boolean | undefined {
+	const value = input[name];
+	if (value === undefined || typeof value === "boolean") {
+		return value;
+	}
+	throw invalidParameter(name, "a boolean");
+}
+
+function stringListParam(
+	input: Record<string, unknown>,
+	name: string,
+): string[] | undefined {
+	const value = input[name];
+	if (
+		value === undefined ||
+		(Array.isArray(value) && value.every((item) => typeof item === "string"))
+	) {
+		return value;
+	}
+	throw invalidParameter(name, "a list of strings");
+}
+
+const MAX_BATCH_BYTES = 1048576;
+const MAX_BATCH_EVENTS = 10000;
+const MAX_EVENT_BYTES = 1048576;
+const EVENT_OVERHEAD = 26;
+const MAX_BATCH_TIME_SPAN = 24 * 60 * 60 * 1000;
+const MAX_EVENT_AGE = 14 * 24 * 60 * 60 * 1000;
+const MAX_EVENT_FUTURE = 2 * 60 * 60 * 1000;
+
+/**
+ * An in-process stand-in for the CloudWatch Logs API, for end-to-end tests without AWS.
+ * Implements CreateLogGroup, CreateLogStream, DescribeLogStreams, PutRetentionPolicy, PutLogEvents,
+ * GetLogEvents and FilterLogEvents over the real JSON protocol, with CloudWatch's batch limits, and can inject faults.
+ * Filter patterns are limited to terms and quoted phrases that must all appear in the message.
+ * @example
+ * const server = await FakeCloudWatchLogsServer.create();
+ * const transport = await CloudWatchLogsTransportStream.create({
+ *   logGroupName: "app",
+ *   createLogGroup: true,
+ *   cloudWatchLogsClientConfig: server.clientConfig,
+ * });
+ */
+export class FakeCloudWatchLogsServer {
+	#server: Server;
+	#logGroups = new Map<string, StoredLogGroup>();
+	#faults: (FakeCloudWatchLogsFault & { remaining: number })[] = [];
+	#requests: FakeCloudWatchLogsRequest[] = [];
+
+	private constructor() {
+		this.#server = createServer((req, res) => this.#handle(req, res));
+	}
+
+	/**
+	 * Starts a server listening on localhost
+	 * @param port Defaults to a random free port
+	 */
+	static async create(port = 0): Promise<FakeCloudWatchLogsServer> {
+		const instance = new FakeCloudWatchLogsServer();
+		await new Promise<void>((resolve, reject) => {
+			instance.#server.once("error", reject);
+			instance.#server.listen(port, "127.0.0.1", () => resolve());
+		});
+		return instance;
+	}
+
+	get endpoint(): string {
+		const { port } = this.#server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	/**
+	 * Client configuration pointing at this server, with dummy credentials.
+	 * SDK retries are turned off so injected faults reach the caller.
+	 */
+	get clientConfig(): CloudWatchLogsClientConfig {
+		return {
+			endpoint: this.endpoint,
+			region: "us-east-1",
+			credentials: { accessKeyId: "fake", secretAccessKey: "fake" },
+			maxAttempts: 1,
+		};
+	}
+
+	/**
+	 * Makes the next matching requests fail
+	 */
+	injectFault(fault: FakeCloudWatchLogsFault): void {
+		this.#faults.push({ ...fault, remaining: fault.times ?? 1 });
+	}
+
+	/**
+	 * Every request received so far, in order
+	 */
+	requests(): FakeCloudWatchLogsRequest[] {
+		return [...this.#requests];
+	}
+
+	/**
+	 * Messages stored in a log stream, in the order CloudWatch would return them
+	 */
+	messages(logGroupName: string, logStreamName: string): string[] {
+		const stream = this.#logGroups
+			.get(logGroupName)
+			?.streams.get(logStreamName);
+		return stream?.events.map((event) => event.message) ?? [];
+	}
+
+	/**
+	 * Forgets every log group, fault and request
+	 */
+	reset(): void {
+		this.#logGroups.clear();
+		this.#faults = [];
+		this.#requests = [];
+	}
+
+	async close(): Promise<void> {
+		this.#server.closeAllConnections();
+		await new Promise<void>((resolve, reject) =>
+			this.#server.close((error) => (error ? reject(error) : resolve())),
+		);
+	}
+
+	async #handle(req: IncomingMessage, res: ServerResponse) {
+		const target = String(req.headers["x-amz-target"] ?? "");
+		const operation = target.replace(/^Logs_20140328\./, "");
+		try {
+			// Inside the try, so a broken request stream is answered instead of rejecting the listener
+			const chunks: Buffer[] = [];
+			for await (const chunk of req) {
+				chunks.push(chunk as Buffer);
+			}
+			const body = Buffer.concat(chunks).toString("utf8");
+			const input: unknown = body ? JSON.parse(body) : {};
+			if (!isRecord(input)) {
+				throw new ServiceError(
+					"SerializationException",
+					"The request body must be a JSON object",
+				);
+			}
+			this.#requests.push({ operation, input });
+			this.#applyFault(operation);
+			this.#send(res, 200, this.#dispatch(operation, input));
+		} catch (error) {
+			const serviceError =
+				error instanceof ServiceError
+					? error
+					: new ServiceError(
+							"SerializationException",
+							error instanceof Error ? error.message : String(error),
+						);
+			res.setHeader("x-amzn-ErrorType", serviceError.type);
+			this.#send(res, serviceError.statusCode, {
+				__type: serviceError.type,
+				message: serviceError.message,
+			});
+		}
+	}
+
+	#send(res: ServerResponse, statusCode: number, body: unknown) {
+		const payload = JSON.stringify(body);
+		res.writeHead(statusCode, {
+			"content-type": "application/x-amz-json-1.1",
+			"content-length": Buffer.byteLength(payload),
+			"x-amzn-requestid": randomUUID(),
+		});
+		res.end(payload);
+	}
+
+	#applyFault(operation: string) {
+		const fault = this.#faults.find(
+			(candidate) =>
+				candidate.remaining > 0 &&
+				(candidate.operation === undefined ||
+					candidate.operation === operation),
+		);
+		if (!fault) {
+			return;
+		}
+		fault.remaining--;
+		const { error } = fault;
+		if (error === "throttling") {
+			throw new ServiceError("ThrottlingException", "Rate exceeded");
+		}
+		if (error === "serverError") {
+			throw new ServiceError(
+				"ServiceUnavailableException",
+				"The service is unavailable",
+				500,
+			);
+		}
+		throw new ServiceError(
+			error.type,
+			error.message ?? error.type,
+			error.statusCode,
+		);
+	}
+
+	#dispatch(operation: string, input: Record<string, unknown>): unknown {
+		switch (operation) {
+			case "CreateLogGroup":
+				return this.#createLogGroup(input.logGroupName);
+			case "CreateLogStream":
+				return this.#createLogStream(input.logGroupName, input.logStreamName);
+			case "DescribeLogStreams":
+				return this.#describeLogStreams(
+					input.logGroupName,
+					input.logStreamNamePrefix,
+				);
+			case "PutRetentionPolicy":
+				this.#getLogGroup(input.logGroupName).retentionInDays = numberParam(
+					input,
+					"retentionInDays",
+				);
+				return {};
+			case "PutLogEvents":
+				return this.#putLogEvents(
+					input.logGroupName,
+					input.logStreamName,
+					Array.isArray(input.logEvents)
+						? (input.logEvents as InputLogEvent[])
+						: undefined,
+				);
+			case "GetLogEvents":
+				return this.#getLogEvents({
+					logGroupName: stringParam(input, "logGroupName"),
+					logStreamName: stringParam(input, "logStreamName"),
+					startTime: numberParam(input, "startTime"),
+					endTime: numberParam(input, "endTime"),
+					limit: numberParam(input, "limit"),
+					startFromHead: booleanParam(input, "startFromHead"),
+					nextToken: stringParam(input, "nextToken"),
+				});
+			case "FilterLogEvents":
+				return this.#filterLogEvents({
+					logGroupName: stringParam(input, "logGroupName"),
+					logStreamNames: stringListParam(input, "logStreamNames"),
+					logStreamNamePrefix: stringParam(input, "logStreamNamePrefix"),
+					startTime: numberParam(input, "startTime"),
+					endTime: numberParam(input, "endTime"),
+					filterPattern: stringParam(input, "filterPattern"),
+					limit: numberParam(input, "limit"),
+					nextToken: stringParam(input, "nextToken"),
+				});
+			default:
+				throw new ServiceError(
+					"UnknownOperationException",
+					`Unsupported operation ${operation}`,
+				);
+		}
+	}
+
+	#getLogGroup(logGroupName: unknown): StoredLogGroup {
+		const group = this.#logGroups.get(String(logGroupName));
+		if (!group) {
+			throw new ServiceError(
+				"ResourceNotFoundException",
+				"The specified log group does not exist.",
+			);
+		}
+		return group;
+	}
+
+	#getLogStream(logGroupName: unknown, logStreamName: unknown) {
+		const stream = this.#getLogGroup(logGroupName).streams.get(
+			String(logStreamName),
+		);
+		if (!stream) {
+			throw new ServiceError(
+				"ResourceNotFoundException",
+				"The specified log stream does not exist.",
+			);
+		}
+		return stream;
+	}
+
+	#validateName(name: unknown, kind: string, pattern: RegExp): string {
+		if (
+			typeof name !== "string" ||
+			name.length < 1 ||
+			name.length > 512 ||
+			!pattern.test(name)
+		) {
+			throw new ServiceError(
+				"InvalidParameterException",
+				`Invalid ${kind} name: ${String(name)}`,
+			);
+		}
+		return name;
+	}
+
+	#createLogGroup(logGroupName: unknown) {
+		const name = this.#validateName(logGroupName, "log group", /^[\w\-./#]+$/);
+		if (this.#logGroups.has(name)) {
+			throw new ServiceError(
+				"ResourceAlreadyExistsException",
+				"The specified log group already exists",
+			);
+		}
+		this.#logGroups.set(name, {
+			creationTime: Date.now(),
+			retentionInDays: undefined,
+			streams: new Map(),
+		});
+		return {};
+	}
+
+	#createLogStream(logGroupName: unknown, logStreamName: unknown) {
+		const group = this.#getLogGroup(logGroupName);
+		const name = this.#validateName(logStreamName, "log stream", /^[^:*]+$/);
+		if (group.streams.has(name)) {
+			throw new ServiceError(
+				"ResourceAlreadyExistsException",
+				"The specified log stream already exists",
+			);
+		}
+		group.streams.set(name, { creationTime: Date.now(), events: [] });
+		return {};
+	}
+
+	#describeLogStreams(logGroupName: unknown, prefix: unknown) {
+		const group = this.#getLogGroup(logGroupName);
+		const logStreams = [...group.streams]
+			.filter(([name]) => typeof prefix !== "string" || name.startsWith(prefix))
+			.sort(([a], [b]) => a.localeCompare(b))
+			.map(([logStreamName, stream]) => ({
+				logStreamName,
+				creationTime: stream.creationTime,
+				firstEventTimestamp: stream.events[0]?.timestamp,
+				lastEventTimestamp: stream.events.at(-1)?.timestamp,
+				storedBytes: 0,
+			}));
+		return { logStreams };
+	}
+
+	#putLogEvents(
+		logGroupName: unknown,
+		logStreamName: unknown,
+		logEvents: InputLogEvent[] | undefined,
+	) {
+		const group = this.#getLogGroup(logGroupName);
+		const stream = this.#getLogStream(logGroupName, logStreamName);
+		if (!Array.isArray(logEvents) || logEvents.length === 0) {
+			throw new ServiceError(
+				"InvalidParameterException",
+				"logEvents must contain at least 1 item",
+			);
+		}
+		if (logEvents.length > MAX_BATCH_EVENTS) {
+			throw new ServiceError(
+				"InvalidParameterException",
+				`logEvents must contain at most ${MAX_BATCH_EVENTS} items`,
+			);
+		}
+		let batchBytes = 0;
+		for (const event of logEvents) {
+			if (
+				typeof event.message !== "string" ||
+				typeof event.timestamp !== "number"
+			) {
+				throw new ServiceError(
+					"InvalidParameterException",
+					"Every log event needs a message and a timestamp",
+				);
+			}
+			const eventBytes = Buffer.byteLength(event.message) + EVENT_OVERHEAD;
+			if (eventBytes > MAX_EVENT_BYTES) {
+				throw new ServiceError(
+					"InvalidParameterException",
+					`Log event too large: ${eventBytes} bytes exceeds limit of ${MAX_EVENT_BYTES}`,
+				);
+			}
+			batchBytes += eventBytes;
+		}
+		if (batchBytes > MAX_BATCH_BYTES) {
+			throw new ServiceError(
+				"InvalidParameterException",
+				`Upload too large: ${batchBytes} bytes exceeds limit of ${MAX_BATCH_BYTES}`,
+			);
+		}
+		const timestamps = logEvents.map((event) => event.timestamp as number);
+		for (let i = 1; i < timestamps.length; i++) {
+			if ((timestamps[i] as number) < (timestamps[i - 1] as number)) {
+				throw new ServiceError(
+					"InvalidParameterException",
+					"Log events in a single PutLogEvents request must be in chronological order.",
+				);
+			}
+		}
+		if (
+			(timestamps.at(-1) as number) - (timestamps[0] as number) >
+			MAX_BATCH_TIME_SPAN
+		) {
+			throw new ServiceError(
+				"InvalidParameterException",
+				"The batch of log events in a single PutLogEvents request cannot span more than 24 hours.",
+			);
+		}
+
+		// Events are sorted, so rejected ones are always at the start or the end of the batch
+		const now = Date.now();
+		const retention = group.retentionInDays
+			? group.retentionInDays * 24 * 60 * 60 * 1000
+			: Number.POSITIVE_INFINITY;
+		const expiredEnd = timestamps.filter((t) => now - t > retention).length;
+		const tooOldEnd = timestamps.filter((t) => now - t > MAX_EVENT_AGE).length;
+		const tooNewStart = timestamps.findIndex((t) => t - now > MAX_EVENT_FUTURE);
+
+		const rejectedLogEventsInfo: RejectedLogEventsInfo = {};
+		if (expiredEnd > 0) {
+			rejectedLogEventsInfo.expiredLogEventEndIndex = expiredEnd;
+		}
+		if (tooOldEnd > 0) {
+			rejectedLogEventsInfo.tooOldLogEventEndIndex = tooOldEnd;
+		}
+		if (tooNewStart !== -1) {
+			rejectedLogEventsInfo.tooNewLogEventStartIndex = tooNewStart;
+		}
+		const accepted = logEvents.slice(
+			Math.max(expiredEnd, tooOldEnd),
+			tooNewStart === -1 ? logEvents.length : tooNewStart,
+		);
+		for (const { message, timestamp } of accepted) {
+			stream.events.push({
+				message: message as string,
+				timestamp: timestamp as number,
+				ingestionTime: now,
+			});
+		}
+		stream.events.sort((a, b) => a.timestamp - b.timestamp);
+
+		return Object.keys(rejectedLogEventsInfo).length > 0
+			? { rejectedLogEventsInfo }
+			: {};
+	}
+
+	#getLogEvents(input: {
+		logGroupName?: string;
+		logStreamName?: string;
+		startTime?: number;
+		endTime?: number;
+		limit?: number;
+		startFromHead?: boolean;
+		nextToken?: string;
+	}) {
+		const stream = this.#getLogStream(input.logGroupName, input.logStreamName);
+		const events = stream.events.filter(
+			({ timestamp }) =>
+				(input.startTime === undefined || timestamp >= input.startTime) &&
+				(input.endTime === undefined || timestamp < input.endTime),
+		);
+		const limit = Math.min(input.limit ?? MAX_BATCH_EVENTS, MAX_BATCH_EVENTS);
+		// Tokens are offsets into the matching events, prefixed like CloudWatch's
+		const offset = input.nextToken
+			? Number(input.nextToken.slice(2))
+			: input.startFromHead
+				? 0
+				: Math.max(0, events.length - limit);
+		const page = events.slice(offset, offset + limit);
+		return {
+			events: page,
+			nextForwardToken: `f/${offset + page.length}`,
+			nextBackwardToken: `b/${Math.max(0, offset - limit)}`,
+		};
+	}
+
+	#filterLogEvents(input: {
+		logGroupName?: string;
+		logStreamNames?: string[];
+		logStreamNamePrefix?: string;
+		startTime?: number;
+		endTime?: number;
+		filterPattern?: string;
+		limit?: number;
+		nextToken?: string;
+	}) {
+		const group = this.#getLogGroup(input.logGroupName);
+		const terms = [
+			...(input.filterPattern ?? "").matchAll(/"([^"]*)"|(\S+)/g),
+		].map(([, phrase, term]) => phrase ?? term ?? "");
+		const events = [...group.streams]
+			.filter(
+				([name]) =>
+					(!input.logStreamNames || input.logStreamNames.includes(name)) &&
+					name.startsWith(input.logStreamNamePrefix ?? ""),
+			)
+			.flatMap(([logStreamName, stream]) =>
+				stream.events.map((event, index) => ({
+					...event,
+					logStreamName,
+					eventId: `${logStreamName}/${index}`,
+				})),
+			)
+			.filter(
+				({ timestamp, message }) =>
+					(input.startTime === undefined || timestamp >= input.startTime) &&
+					(input.endTime === undefined || timestamp <= input.endTime) &&
+					terms.every((term) => message.includes(term)),
+			)
+			.sort((a, b) => a.timestamp - b.timestamp);
+		const limit = Math.min(input.limit ?? MAX_BATCH_EVENTS, MAX_BATCH_EVENTS);
+		const offset = input.nextToken ? Number(input.nextToken) : 0;
+		const page = events.slice(offset, offset + limit);
+		return {
+			events: page,
+			nextToken:
+				offset + page.length < events.length
+					? String(offset + page.length)
+					: undefined,
+		};
+	}
+}
@@ -1,8 +1,13 @@
+import { mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import {
 	CloudWatchLogsClient,
+	DescribeLogStreamsCommand,
 	PutLogEventsCommand,
 } from "@aws-sdk/client-cloudwatch-logs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import winston from "winston";
 import { CloudWatchLogsTransportStream } from "./index";
 
 // Mock AWS SDK
@@ -123,6 +128,953 @@ describe("CloudWatchLogsTransportStream", () => {
 		});
 	});
 
+	describe("batchSize", () => {
+		const putCalls = () =>
+			(PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>).mock.calls;
+
+		it("should flush as soon as batchSize events are queued", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				flushInterval: 60000,
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(putCalls()).toHaveLength(0);
+
+			await instance.log("message 2", () => {});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(putCalls()).toHaveLength(1);
+			expect(putCalls()[0]?.[0].logEvents).toHaveLength(2);
+		});
+
+		it("should flush as soon as batchSizeBytes is reached", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: undefined,
+				batchSizeBytes: 100,
+				flushInterval: 60000,
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("x".repeat(50), () => {});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(putCalls()).toHaveLength(0);
+
+			await instance.log("x".repeat(50), () => {});
+			await vi.advanceTimersByTimeAsync(0);
+			expect(putCalls()).toHaveLength(1);
+		});
+
+		it("should merge triggers into the flush in flight", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 1,
+				flushInterval: 60000,
+			});
+			let resolveSend: (() => void) | undefined;
+			mockCloudWatchClient.send.mockImplementation((command) =>
+				command instanceof PutLogEventsCommand && !resolveSend
+					? new Promise<void>((resolve) => {
+							resolveSend = resolve;
+						})
+					: Promise.resolve({}),
+			);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(0);
+			await instance.log("message 2", () => {});
+			await instance.log("message 3", () => {});
+			expect(putCalls()).toHaveLength(1);
+
+			resolveSend?.();
+			await vi.advanceTimersByTimeAsync(0);
+			expect(putCalls()).toHaveLength(2);
+			expect(putCalls()[1]?.[0].logEvents).toHaveLength(2);
+		});
+
+		it("should leave events queued during a send to the next interval", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: undefined,
+			});
+			let resolveSend: (() => void) | undefined;
+			mockCloudWatchClient.send.mockImplementation((command) =>
+				command instanceof PutLogEventsCommand && !resolveSend
+					? new Promise<void>((resolve) => {
+							resolveSend = resolve;
+						})
+					: Promise.resolve({}),
+			);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			await instance.log("message 2", () => {});
+			resolveSend?.();
+			await vi.advanceTimersByTimeAsync(50);
+			expect(putCalls()).toHaveLength(1);
+
+			await vi.advanceTimersByTimeAsync(50);
+			expect(putCalls()).toHaveLength(2);
+			expect(putCalls()[1]?.[0].logEvents).toEqual([
+				expect.objectContaining({ message: "message 2" }),
+			]);
+		});
+	});
+
+	describe("messageFormatter", () => {
+		it("should send the whole entry as JSON in json mode", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				messageFormatter: "json",
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log(
+				{ level: "info", message: "hello", requestId: "abc" },
+				() => {},
+			);
+			await vi.runOnlyPendingTimersAsync();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls[0]?.[0].logEvents[0].message).toBe(
+				'{"level":"info","message":"hello","requestId":"abc"}',
+			);
+		});
+	});
+
+	describe("redact", () => {
+		it("should redact log entries before they are queued", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				redact: [{ detector: "email" }],
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log({ message: "hello alice@example.com" }, () => {});
+			await vi.runOnlyPendingTimersAsync();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls[0]?.[0].logEvents[0].message).toBe("hello [REDACTED]");
+		});
+	});
+
+	describe("timestamp", () => {
+		const putLogEvents = () =>
+			(PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>).mock
+				.calls[0]?.[0].logEvents;
+
+		it("should use the timestamp of the log entry", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log(
+				{ message: "message", timestamp: "2025-01-02T03:04:05.678Z" },
+				() => {},
+			);
+			await vi.runOnlyPendingTimersAsync();
+
+			expect(putLogEvents()).toEqual([
+				{ message: "message", timestamp: 1735787045678 },
+			]);
+		});
+
+		it("should read the timestamp from timestampKey or timestampResolver", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				timestampKey: "time",
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+			await instance.log({ message: "message", time: 1000 }, () => {});
+			await vi.runOnlyPendingTimersAsync();
+			expect(putLogEvents()).toEqual([{ message: "message", timestamp: 1000 }]);
+
+			vi.clearAllMocks();
+			const resolved = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				timestampResolver: () => new Date(2000),
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+			await resolved.log({ message: "message" }, () => {});
+			await vi.runOnlyPendingTimersAsync();
+			expect(putLogEvents()).toEqual([{ message: "message", timestamp: 2000 }]);
+		});
+
+		it("should fall back to the current time", async () => {
+			vi.setSystemTime(5000);
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log({ message: "message", timestamp: "nope" }, () => {});
+			await vi.runOnlyPendingTimersAsync();
+
+			expect(putLogEvents()).toEqual([{ message: "message", timestamp: 5000 }]);
+		});
+	});
+
+	describe("router", () => {
+		it("should send each entry to the destination picked by the router", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				router: (info) => {
+					if (typeof info === "string") return undefined;
+					if (info.audit) return { logGroupName: "/app/audit" };
+					if (info.tenant) return { logStreamName: `tenant-${info.tenant}` };
+					return undefined;
+				},
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log({ message: "default" }, () => {});
+			await instance.log({ message: "audit", audit: true }, () => {});
+			await instance.log({ message: "tenant a", tenant: "a" }, () => {});
+			await instance.log({ message: "tenant a again", tenant: "a" }, () => {});
+			await vi.runOnlyPendingTimersAsync();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls.map(([params]) => ({
+				logGroupName: params.logGroupName,
+				logStreamName: params.logStreamName,
+				messages: params.logEvents.map(
+					(event: { message: string }) => event.message,
+				),
+			}));
+			expect(putCalls).toHaveLength(3);
+			expect(putCalls).toEqual(
+				expect.arrayContaining([
+					{
+						logGroupName: "test-group",
+						logStreamName: "test-stream",
+						messages: ["default"],
+					},
+					{
+						logGroupName: "/app/audit",
+						logStreamName: "test-stream",
+						messages: ["audit"],
+					},
+					{
+						logGroupName: "test-group",
+						logStreamName: "tenant-a",
+						messages: ["tenant a", "tenant a again"],
+					},
+				]),
+			);
+		});
+
+		it("should forget destinations that stay idle", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				router: (info) =>
+					typeof info === "string"
+						? undefined
+						: { logStreamName: `tenant-${info.tenant}` },
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+			const describedStreams = () =>
+				(
+					DescribeLogStreamsCommand as unknown as ReturnType<typeof vi.fn>
+				).mock.calls.map(([params]) => params.logStreamNamePrefix);
+
+			await instance.log({ message: "1", tenant: "a" }, () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			await instance.log({ message: "2", tenant: "a" }, () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			expect(describedStreams()).toEqual(["tenant-a"]);
+
+			await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+			await instance.log({ message: "3", tenant: "b" }, () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			await instance.log({ message: "4", tenant: "a" }, () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			// tenant-a was forgotten, so its stream is checked again
+			expect(describedStreams()).toEqual(["tenant-a", "tenant-b", "tenant-a"]);
+		});
+	});
+
+	describe("maxConcurrentRequests", () => {
+		it("should cap requests in flight across destinations", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+				maxConcurrentRequests: 2,
+				router: (info) =>
+					typeof info === "string" ? undefined : { logStreamName: info.tenant },
+			});
+			let inFlight = 0;
+			let maxInFlight = 0;
+			mockCloudWatchClient.send.mockImplementation(async (command) => {
+				if (command instanceof PutLogEventsCommand) {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					await new Promise((resolve) => setTimeout(resolve, 50));
+					inFlight--;
+				}
+				return { logStreams: [{ logStreamName: "test-stream" }] };
+			});
+
+			for (const tenant of ["a", "b", "c", "d"]) {
+				await instance.log(
+					{ level: "info", message: tenant, tenant },
+					() => {},
+				);
+			}
+			await vi.advanceTimersByTimeAsync(100);
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(PutLogEventsCommand).toHaveBeenCalledTimes(4);
+			expect(maxInFlight).toBe(2);
+		});
+	});
+
+	describe("priority and sampling", () => {
+		it("should send error and warn entries first", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log({ level: "debug", message: "debug" }, () => {});
+			await instance.log({ level: "error", message: "error" }, () => {});
+			await instance.flush();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls.map(([input]) => input.logEvents.length)).toEqual([1, 1]);
+			expect(putCalls[0]?.[0].logEvents[0].message).toBe("error");
+		});
+
+		it("should log a summary of the entries suppressed by the rate limit", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+				sampling: { rateLimit: { limit: 1, interval: 1000 } },
+			});
+			const onSuppressed = vi.fn();
+			instance.on("suppressed", onSuppressed);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			for (let i = 0; i < 3; i++) {
+				await instance.log({ level: "info", message: "same" }, () => {});
+			}
+			await instance.close();
+
+			expect(onSuppressed).toHaveBeenCalledWith({
+				key: "same",
+				count: 2,
+				info: { level: "info", message: "same" },
+			});
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(
+				putCalls.flatMap(([input]) =>
+					input.logEvents.map((event: { message: string }) => event.message),
+				),
+			).toEqual(["same", "2 similar messages suppressed: same"]);
+		});
+	});
+
+	describe("dedup", () => {
+		it("should send repeated messages as a single event", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+				dedup: { window: 1000 },
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			for (let i = 0; i < 3; i++) {
+				await instance.log({ level: "info", message: "same" }, () => {});
+			}
+			await instance.close();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls).toHaveLength(1);
+			expect(putCalls[0]?.[0].logEvents).toHaveLength(1);
+			expect(putCalls[0]?.[0].logEvents[0].message).toMatch(
+				/^same \[repeated 3 times, first .+, last .+\]$/,
+			);
+		});
+	});
+
+	describe("queue limits", () => {
+		it("should report events dropped by the overflow policy", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				maxQueueEvents: 1,
+			});
+			const onDropped = vi.fn();
+			instance.on("dropped", onDropped);
+
+			await instance.log("message 1", () => {});
+			await instance.log("message 2", () => {});
+
+			expect(onDropped).toHaveBeenCalledWith({
+				reason: "overflow",
+				count: 1,
+				logGroupName: "test-group",
+			});
+		});
+
+		it("should report messages dropped by the oversize policy", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				oversizePolicy: "drop",
+			});
+			const onDropped = vi.fn();
+			instance.on("dropped", onDropped);
+
+			await instance.log("x".repeat(1048577), () => {});
+
+			expect(onDropped).toHaveBeenCalledWith({
+				reason: "oversize",
+				count: 1,
+				logGroupName: "test-group",
+			});
+		});
+
+		it("should hold back the log callback until a flush makes room", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				maxQueueEvents: 1,
+				overflowPolicy: "block",
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			const first = vi.fn();
+			const second = vi.fn();
+			await instance.log("message 1", first);
+			const pending = instance.log("message 2", second);
+			await vi.advanceTimersByTimeAsync(0);
+
+			expect(first).toHaveBeenCalled();
+			expect(second).not.toHaveBeenCalled();
+
+			await vi.advanceTimersByTimeAsync(100);
+			await pending;
+			expect(second).toHaveBeenCalled();
+		});
+	});
+
+	describe("spool", () => {
+		let directory: string;
+
+		beforeEach(() => {
+			directory = mkdtempSync(join(tmpdir(), "transport-spool-test-"));
+		});
+		afterEach(() => {
+			rmSync(directory, { recursive: true, force: true });
+		});
+
+		it("should replay unsent events from a previous run", async () => {
+			const crashed = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				spool: { directory },
+			});
+			await crashed.log("message 1", () => {});
+			// The process dies before the next flush
+			expect(readdirSync(directory)).toHaveLength(1);
+
+			vi.clearAllTimers();
+			vi.clearAllMocks();
+			mockCloudWatchClient.send.mockResolvedValue({});
+			await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				spool: { directory },
+			});
+			await vi.advanceTimersByTimeAsync(100);
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls[0]?.[0].logEvents).toEqual([
+				{ message: "message 1", timestamp: expect.any(Number) },
+			]);
+			expect(readdirSync(directory)).toHaveLength(0);
+		});
+	});
+
+	describe("retry", () => {
+		const throttlingError = Object.assign(new Error("Rate exceeded"), {
+			name: "ThrottlingException",
+		});
+
+		it("should retry a batch that failed with a retryable error", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				retryOptions: { baseDelay: 1000, jitter: false },
+			});
+			const onWarn = vi.fn();
+			instance.on("warn", onWarn);
+
+			const putCalls = () =>
+				(PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>).mock.calls;
+			let putAttempts = 0;
+			mockCloudWatchClient.send.mockImplementation(async (command) => {
+				if (command instanceof PutLogEventsCommand && putAttempts++ === 0) {
+					throw throttlingError;
+				}
+				return {};
+			});
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			expect(putAttempts).toBe(1);
+			expect(onWarn).toHaveBeenCalledWith({
+				message: "Failed to flush logs to CloudWatch, retrying in 1000ms",
+				error: throttlingError,
+			});
+
+			// Timer flushes are skipped while waiting for the backoff
+			await vi.advanceTimersByTimeAsync(900);
+			expect(putAttempts).toBe(1);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(putAttempts).toBe(2);
+			expect(putCalls()[1]?.[0].logEvents).toEqual([
+				{ message: "message 1", timestamp: expect.any(Number) },
+			]);
+		});
+
+		it("should drop the batch once retries are exhausted", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				retryOptions: { maxRetries: 1, baseDelay: 1000, jitter: false },
+			});
+			const onWarn = vi.fn();
+			instance.on("warn", onWarn);
+			const onDropped = vi.fn();
+			instance.on("dropped", onDropped);
+
+			mockCloudWatchClient.send.mockClear();
+			mockCloudWatchClient.send.mockRejectedValue(throttlingError);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(onWarn).toHaveBeenCalledWith({
+				message: "Failed to flush logs to CloudWatch:",
+				error: throttlingError,
+			});
+			expect(onDropped).toHaveBeenCalledWith({
+				reason: "failed",
+				count: 1,
+				logGroupName: "test-group",
+			});
+
+			// Nothing is left to send
+			mockCloudWatchClient.send.mockClear();
+			await vi.advanceTimersByTimeAsync(100);
+			expect(mockCloudWatchClient.send).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("rejected log events", () => {
+		const rejectOldestEvent = async (command: unknown) =>
+			command instanceof PutLogEventsCommand
+				? { rejectedLogEventsInfo: { tooOldLogEventEndIndex: 1 } }
+				: {};
+
+		it("should emit a rejected event with the affected log events", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			const onRejected = vi.fn();
+			instance.on("rejected", onRejected);
+
+			mockCloudWatchClient.send.mockImplementation(rejectOldestEvent);
+
+			await instance.log("message 1", () => {});
+			await instance.log("message 2", () => {});
+			await vi.runOnlyPendingTimersAsync();
+
+			expect(onRejected).toHaveBeenCalledWith({
+				reason: "tooOld",
+				logEvents: [{ message: "message 1", timestamp: expect.any(Number) }],
+				logGroupName: "test-group",
+				logStreamName: expect.any(String),
+			});
+		});
+
+		it("should requeue too old events with the retimestamp policy", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				rejectedLogEventsPolicy: "retimestamp",
+			});
+
+			mockCloudWatchClient.send.mockImplementation(rejectOldestEvent);
+
+			await instance.log("message 1", () => {});
+			await vi.runOnlyPendingTimersAsync();
+			mockCloudWatchClient.send.mockResolvedValue({});
+			await vi.runOnlyPendingTimersAsync();
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			expect(putCalls).toHaveLength(2);
+			expect(putCalls[1]?.[0].logEvents).toEqual([
+				{ message: "message 1", timestamp: expect.any(Number) },
+			]);
+		});
+
+		it("should pass rejected events to a fallback handler", async () => {
+			const handler = vi.fn();
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				rejectedLogEventsPolicy: handler,
+			});
+
+			mockCloudWatchClient.send.mockImplementation(rejectOldestEvent);
+
+			await instance.log("message 1", () => {});
+			await vi.runOnlyPendingTimersAsync();
+
+			expect(handler).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: "tooOld" }),
+			);
+		});
+	});
+
+	describe("stats", () => {
+		it("should count queued and sent events", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			expect(instance.getStats()).toMatchObject({
+				eventsQueued: 1,
+				eventsSent: 0,
+				queueDepth: 1,
+				queueBytes: 35,
+			});
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(instance.getStats()).toMatchObject({
+				eventsQueued: 1,
+				eventsSent: 1,
+				bytesSent: 35,
+				queueDepth: 0,
+				queueBytes: 0,
+				consecutiveFailures: 0,
+			});
+			expect(instance.getStats().flushLatency.count).toBe(1);
+		});
+
+		it("should record failures and emit stats periodically", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				statsInterval: 1000,
+			});
+			const onStats = vi.fn();
+			instance.on("stats", onStats);
+			mockCloudWatchClient.send.mockRejectedValue(
+				Object.assign(new Error("Access denied"), {
+					name: "AccessDeniedException",
+				}),
+			);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(onStats).toHaveBeenCalledTimes(1);
+			expect(onStats.mock.calls[0]?.[0]).toMatchObject({
+				eventsDropped: 1,
+				consecutiveFailures: 1,
+				lastError: {
+					name: "AccessDeniedException",
+					message: "Access denied",
+				},
+			});
+
+			consoleSpy.mockRestore();
+		});
+
+		it("should write embedded metrics to a separate stream", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				statsInterval: 1000,
+				embeddedMetrics: { namespace: "MyApp" },
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(1100);
+
+			const putCalls = (
+				PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>
+			).mock.calls;
+			const metricsCall = putCalls.find(
+				([input]) => input.logStreamName === "winston-cloudwatch-logs-metrics",
+			);
+			const metrics = JSON.parse(metricsCall?.[0].logEvents[0].message);
+			expect(metrics._aws.CloudWatchMetrics[0].Namespace).toBe("MyApp");
+			expect(metrics).toMatchObject({
+				LogGroup: "test-group",
+				EventsQueued: 1,
+				EventsSent: 1,
+			});
+		});
+	});
+
+	describe("events", () => {
+		const accessDeniedError = Object.assign(new Error("Access denied"), {
+			name: "AccessDeniedException",
+		});
+
+		it("should emit flushed after a batch is sent", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			const onFlushed = vi.fn();
+			instance.on("flushed", onFlushed);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(onFlushed).toHaveBeenCalledWith({
+				count: 1,
+				bytes: 35,
+				logGroupName: "test-group",
+				logStreamName: "test-stream",
+			});
+		});
+
+		it("should emit streamCreated when a log stream is created", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			const onStreamCreated = vi.fn();
+			instance.on("streamCreated", onStreamCreated);
+			mockCloudWatchClient.send.mockResolvedValue({ logStreams: [] });
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(onStreamCreated).toHaveBeenCalledWith({
+				logGroupName: "test-group",
+				logStreamName: "test-stream",
+			});
+		});
+
+		it("should emit error instead of writing to the console with emitErrors", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				emitErrors: true,
+			});
+			const onError = vi.fn();
+			instance.on("error", onError);
+			mockCloudWatchClient.send.mockRejectedValue(accessDeniedError);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(onError).toHaveBeenCalledWith(accessDeniedError);
+			expect(consoleSpy).not.toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+
+		it("should not drop a sent batch when a flushed listener throws", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			instance.on("flushed", () => {
+				throw new Error("listener failed");
+			});
+			const onDropped = vi.fn();
+			instance.on("dropped", onDropped);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(onDropped).not.toHaveBeenCalled();
+			expect(instance.getStats()).toMatchObject({
+				eventsSent: 1,
+				eventsDropped: 0,
+			});
+			expect(consoleSpy).toHaveBeenCalledWith(
+				"Failed to flush logs to CloudWatch:",
+				new Error("listener failed"),
+			);
+			consoleSpy.mockRestore();
+		});
+
+		it("should not crash a winston logger without an error listener", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			const logger = winston.createLogger({ transports: [instance] });
+			const onWarn = vi.fn();
+			logger.on("warn", onWarn);
+			mockCloudWatchClient.send.mockRejectedValue(
+				Object.assign(new Error("Invalid parameter"), {
+					name: "InvalidParameterException",
+				}),
+			);
+
+			logger.info("message 1");
+			await vi.advanceTimersByTimeAsync(100);
+
+			// winston listens to warn events, so nothing is written to the console
+			expect(onWarn).toHaveBeenCalledWith(
+				{
+					message: "Failed to flush logs to CloudWatch:",
+					error: expect.any(Error),
+				},
+				instance,
+			);
+			expect(consoleSpy).not.toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+
+		it("should not write to the console with silenceConsole", async () => {
+			const consoleSpy = vi
+				.spyOn(console, "error")
+				.mockImplementation(() => {});
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				silenceConsole: true,
+			});
+			mockCloudWatchClient.send.mockRejectedValue(accessDeniedError);
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(100);
+
+			expect(consoleSpy).not.toHaveBeenCalled();
+			consoleSpy.mockRestore();
+		});
+	});
+
+	describe("flush timer", () => {
+		it("should only run while events are queued", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			mockCloudWatchClient.send.mockResolvedValue({});
+			expect(vi.getTimerCount()).toBe(0);
+
+			await instance.log("message 1", () => {});
+			expect(vi.getTimerCount()).toBe(1);
+
+			await vi.advanceTimersByTimeAsync(100);
+			expect(mockCloudWatchClient.send).toHaveBeenCalledWith(
+				expect.any(PutLogEventsCommand),
+			);
+			expect(vi.getTimerCount()).toBe(0);
+
+			await instance.log("message 2", () => {});
+			expect(vi.getTimerCount()).toBe(1);
+		});
+
+		it("should not keep the process alive", async () => {
+			const unref = vi.fn();
+			const setTimeoutSpy = vi
+				.spyOn(globalThis, "setTimeout")
+				.mockReturnValue({ unref } as unknown as NodeJS.Timeout);
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+
+			await instance.log("message 1", () => {});
+			expect(unref).toHaveBeenCalled();
+			setTimeoutSpy.mockRestore();
+		});
+	});
+
+	describe("adaptiveFlushInterval", () => {
+		it("should stretch the interval while the queue stays small", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+				flushInterval: 1000,
+				adaptiveFlushInterval: { minInterval: 1000, maxInterval: 10000 },
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+			const putCount = () =>
+				(PutLogEventsCommand as unknown as ReturnType<typeof vi.fn>).mock.calls
+					.length;
+
+			await instance.log("message 1", () => {});
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(putCount()).toBe(1);
+
+			// The next flush waits 1.5 times longer
+			await instance.log("message 2", () => {});
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(putCount()).toBe(1);
+			await vi.advanceTimersByTimeAsync(500);
+			expect(putCount()).toBe(2);
+		});
+	});
+
+	describe("flush", () => {
+		it("should send queued events and report each batch", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+			});
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			await instance.log("message 1", () => {});
+			await instance.log("message 2", () => {});
+			const result = await instance.flush();
+
+			expect(result).toEqual({
+				batches: [
+					{
+						logGroupName: "test-group",
+						logStreamName: "test-stream",
+						count: 2,
+						bytes: 70,
+						status: "sent",
+					},
+				],
+				unsent: 0,
+			});
+			// The transport stays open
+			await instance.log("message 3", () => {});
+			await expect(instance.flush()).resolves.toMatchObject({
+				batches: [{ count: 1, status: "sent" }],
+			});
+		});
+
+		it("should not wait for a pending retry", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				retryOptions: { baseDelay: 60000, jitter: false },
+			});
+			instance.on("warn", () => {});
+			const throttlingError = Object.assign(new Error("Rate exceeded"), {
+				name: "ThrottlingException",
+			});
+			mockCloudWatchClient.send.mockRejectedValueOnce(throttlingError);
+
+			await instance.log("message 1", () => {});
+			await expect(instance.flush()).resolves.toMatchObject({
+				batches: [{ status: "retrying", error: throttlingError }],
+				unsent: 1,
+			});
+
+			mockCloudWatchClient.send.mockResolvedValue({});
+			await expect(instance.flush()).resolves.toMatchObject({
+				batches: [{ count: 1, status: "sent" }],
+				unsent: 0,
+			});
+		});
+	});
+
 	describe("close", () => {
 		it("should flush remaining logs and clear timer on close", async () => {
 			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
@@ -138,5 +1090,77 @@ describe("CloudWatchLogsTransportStream", () => {
 				expect.any(PutLogEventsCommand),
 			);
 		});
+
+		it("should report events left unsent after the timeout", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				batchSize: 10,
+			});
+			const onWarn = vi.fn();
+			instance.on("warn", onWarn);
+			mockCloudWatchClient.send.mockImplementation(
+				(command) =>
+					new Promise((resolve) => {
+						if (command instanceof PutLogEventsCommand) {
+							setTimeout(() => resolve({}), 5000);
+						} else {
+							resolve({});
+						}
+					}),
+			);
+
+			await instance.log("message 1", () => {});
+			await instance.log("message 2", () => {});
+			const closing = instance.close({ timeout: 1000 });
+			await vi.advanceTimersByTimeAsync(1000);
+
+			await expect(closing).resolves.toEqual({ unsent: 2 });
+			expect(onWarn).toHaveBeenCalledWith({
+				message: "2 log events were not sent before closing",
+				error: undefined,
+			});
+			expect(mockCloudWatchClient.destroy).toHaveBeenCalled();
+		});
+
+		it("should report a failed close on exit", async () => {
+			const instance = await CloudWatchLogsTransportStream.create({
+				...mockOptions,
+				handleExitSignals: true,
+			});
+			const onWarn = vi.fn();
+			instance.on("warn", onWarn);
+			const error = new Error("Cannot destroy");
+			mockCloudWatchClient.destroy.mockImplementationOnce(() => {
+				throw error;
+			});
+
+			process.emit("beforeExit", 0);
+			await vi.waitFor(() =>
+				expect(onWarn).toHaveBeenCalledWith({
+					message: "Failed to close the transport on exit:",
+					error,
+				}),
+			);
+		});
+
+		it("should drop log entries arriving after close starts", async () => {
+			const instance = await CloudWatchLogsTransportStream.create(mockOptions);
+			const onDropped = vi.fn();
+			instance.on("dropped", onDropped);
+			mockCloudWatchClient.send.mockResolvedValue({});
+
+			const closing = instance.close();
+			const next = vi.fn();
+			await instance.log("too late", next);
+
+			expect(next).toHaveBeenCalled();
+			expect(onDropped).toHaveBeenCalledWith({
+				reason: "closed",
+				count: 1,
+				logGroupName: "test-group",
+			});
+			await expect(closing).resolves.toEqual({ unsent: 0 });
+			expect(instance.close()).toBe(closing);
+		});
 	});
 });
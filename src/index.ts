@@ -3,114 +3,1175 @@ import {
 	type CloudWatchLogsClientConfig,
 	PutLogEventsCommand,
 	type PutLogEventsCommandInput,
+	type PutLogEventsCommandOutput,
 } from "@aws-sdk/client-cloudwatch-logs";
 import AsyncLock from "async-lock";
 import TransportStream from "winston-transport";
-import { LogQueue } from "./log-queue.js";
+import {
+	AdaptiveFlushInterval,
+	type AdaptiveFlushIntervalOptions,
+} from "./adaptive-flush-interval.js";
+import type { DedupOptions } from "./dedup.js";
+import type {
+	DroppedLogEvents,
+	FlushedLogEvents,
+	TransportEventArgs,
+	TransportEventListener,
+} from "./events.js";
+import { type ExitSignalOptions, hookExitSignals } from "./exit-signals.js";
+import {
+	type LogDestination,
+	type LogDestinationRoute,
+	getLogDestinationKey,
+} from "./log-destination.js";
+import { type CreateLogGroupOptions, isResourceNotFound } from "./log-group.js";
+import { type LogInfo, MESSAGE_SYMBOL, getLevel } from "./log-info.js";
+import {
+	type LogEvent,
+	LogQueue,
+	type LogQueueOptions,
+	type OverflowPolicy,
+	type OversizePolicy,
+} from "./log-queue.js";
 import { LogStreamGenerator } from "./log-stream-generator";
+import type { LogStreamNameStrategy } from "./log-stream-name.js";
+import {
+	type MessageFormatter,
+	jsonMessageFormatter,
+} from "./message-formatter.js";
+import {
+	type RedactionRule,
+	type Redactor,
+	createRedactor,
+} from "./redaction.js";
+import {
+	type RejectedLogEventsPolicy,
+	groupRejectedLogEvents,
+} from "./rejected-log-events.js";
+import { RequestLimiter } from "./request-limiter.js";
+import { type RetryOptions, RetryPolicy } from "./retry.js";
+import {
+	Sampler,
+	type SamplingOptions,
+	type SuppressedLogEntries,
+} from "./sampler.js";
+import { Spool, type SpoolOptions, type SpoolSegment } from "./spool.js";
+import {
+	type EmbeddedMetricsOptions,
+	StatsCollector,
+	type TransportStats,
+	formatEmbeddedMetrics,
+} from "./stats.js";
+import { parseTimestamp } from "./timestamp.js";
 
-const MESSAGE_SYMBOL = Symbol.for("message");
-
-type LogInfo =
-	| {
-			[MESSAGE_SYMBOL]?: string;
-			message?: string;
-			[key: string]: unknown;
-	  }
-	| string;
+export type {
+	CloudWatchLogsTransportEvents,
+	CreatedLogStream,
+	DroppedLogEvents,
+	FlushedLogEvents,
+	TransportWarning,
+} from "./events.js";
+export type { AdaptiveFlushIntervalOptions } from "./adaptive-flush-interval.js";
+export {
+	CloudWatchLogsReader,
+	type CloudWatchLogsReaderOptions,
+	type FilterOptions,
+	type ReadLogEvent,
+	type TailOptions,
+} from "./cloudwatch-logs-reader.js";
+export { type DedupOptions, messageTemplate } from "./dedup.js";
+export type { ExitSignalOptions } from "./exit-signals.js";
+export {
+	type FakeCloudWatchLogsFault,
+	type FakeCloudWatchLogsOperation,
+	type FakeCloudWatchLogsRequest,
+	FakeCloudWatchLogsServer,
+} from "./fake-cloudwatch-logs-server.js";
+export { flushAfterInvocation } from "./lambda.js";
+export type { LogDestinationRoute } from "./log-destination.js";
+export type { CreateLogGroupOptions } from "./log-group.js";
+export type { LogInfo } from "./log-info.js";
+export type {
+	LogEvent,
+	OverflowPolicy,
+	OversizePolicy,
+} from "./log-queue.js";
+export {
+	type LogStreamNameContext,
+	type LogStreamNameStrategy,
+	logStreamNameStrategies,
+} from "./log-stream-name.js";
+export {
+	type JsonMessageFormatterOptions,
+	type MessageFormatter,
+	jsonMessageFormatter,
+} from "./message-formatter.js";
+export {
+	type RedactionAction,
+	type RedactionDetector,
+	type RedactionRule,
+	type Redactor,
+	createRedactor,
+} from "./redaction.js";
+export type {
+	RejectedLogEvents,
+	RejectedLogEventsPolicy,
+	RejectionReason,
+} from "./rejected-log-events.js";
+export type { RetryOptions } from "./retry.js";
+export type { SamplingOptions, SuppressedLogEntries } from "./sampler.js";
+export type { SpoolOptions } from "./spool.js";
+export type {
+	EmbeddedMetricsOptions,
+	LatencyHistogram,
+	TransportStats,
+} from "./stats.js";
 
 export type CloudWatchLogsTransportStreamOptions = {
 	logGroupName: string;
+	/**
+	 * A fixed log stream name, or a function returning the name for the current time.
+	 * See `logStreamNameStrategies` for the built-in hourly, daily and per-instance strategies.
+	 * @default logStreamNameStrategies.hourly
+	 */
+	logStreamName?: string | LogStreamNameStrategy;
+	/**
+	 * Passed to the log stream name strategy. Ignored when `logStreamName` is a string.
+	 */
 	logStreamNamePrefix?: string;
 	cloudWatchLogsClientConfig: CloudWatchLogsClientConfig;
+	/**
+	 * Create the log group when it does not exist. Pass an object to set its retention, KMS key and tags.
+	 * Requires the `logs:CreateLogGroup` permission, plus `logs:PutRetentionPolicy` and `logs:TagResource` when used.
+	 * @default false
+	 */
+	createLogGroup?: boolean | CreateLogGroupOptions;
+	/**
+	 * Flush a destination as soon as this many events are queued, instead of waiting for the timer
+	 */
 	batchSize?: number;
+	/**
+	 * Flush a destination as soon as its queued events reach this size in bytes, instead of waiting for the timer
+	 */
+	batchSizeBytes?: number;
 	flushInterval?: number;
+	/**
+	 * Adapt the flush interval to the load: stretch it while queues stay small or CloudWatch throttles requests,
+	 * and shorten it as queues fill up towards CloudWatch's batch limits (1 MB / 10,000 events) between flushes.
+	 * `flushInterval` is the starting point.
+	 * @default false
+	 */
+	adaptiveFlushInterval?: boolean | AdaptiveFlushIntervalOptions;
+	/**
+	 * Controls how batches that fail with a retryable error are retried
+	 */
+	retryOptions?: RetryOptions;
+	/**
+	 * Maximum number of PutLogEvents requests in flight across all destinations.
+	 * Batches of the same destination are always sent one after another, so a stream receives its events in order.
+	 * @default Infinity
+	 */
+	maxConcurrentRequests?: number;
+	/**
+	 * Maximum number of PutLogEvents requests started per second, to stay under the account's TPS quota.
+	 * Batches wait in their queue until they can be sent.
+	 * @default Infinity
+	 */
+	maxRequestsPerSecond?: number;
+	/**
+	 * What to do with events CloudWatch rejects as too old, too new or expired.
+	 * A `rejected` event is emitted in every case.
+	 * @default "drop"
+	 */
+	rejectedLogEventsPolicy?: RejectedLogEventsPolicy;
+	/**
+	 * Key of the log entry holding its timestamp, e.g. the one set by `winston.format.timestamp()`.
+	 * Dates, epoch milliseconds and date strings are accepted. Falls back to the time the entry reached the transport.
+	 * @default "timestamp"
+	 */
+	timestampKey?: string;
+	/**
+	 * Reads the timestamp from a log entry. Takes precedence over `timestampKey`.
+	 */
+	timestampResolver?: (info: LogInfo) => Date | number | string | undefined;
+	/**
+	 * Picks the log group and stream for each log entry, e.g. audit logs to `/app/audit` or one stream per tenant.
+	 * Every destination has its own queue and is flushed independently, and is forgotten once empty and idle for 5 minutes.
+	 * Return `undefined` (or omit a field) to use `logGroupName` / `logStreamName`.
+	 */
+	router?: (info: LogInfo) => LogDestinationRoute | undefined;
+	/**
+	 * Maximum number of events waiting to be sent, per destination. Unbounded by default.
+	 */
+	maxQueueEvents?: number;
+	/**
+	 * Maximum size in bytes of events waiting to be sent, per destination. Unbounded by default.
+	 */
+	maxQueueBytes?: number;
+	/**
+	 * What to do when the queue is full. `"block"` holds back winston's `log` callback until a flush makes room,
+	 * which applies backpressure to the logger. Dropped events are reported through the `dropped` event.
+	 * @default "drop-oldest"
+	 */
+	overflowPolicy?: OverflowPolicy;
+	/**
+	 * What to do with messages over CloudWatch's per-event limit (about 1 MB).
+	 * `"split"` sends them as several events sharing a correlation ID, each prefixed with its part index (`[1/3]`).
+	 * `"drop"` discards them and emits a `dropped` event.
+	 * @default "truncate"
+	 */
+	oversizePolicy?: OversizePolicy;
+	/**
+	 * Write every event to a local segment file before acknowledging it, so queued events survive crashes and restarts.
+	 * Segments left over by a previous run are replayed when the transport is created.
+	 */
+	spool?: SpoolOptions;
+	/**
+	 * How log entries are turned into CloudWatch messages. `"json"` serializes the whole entry, metadata included,
+	 * for CloudWatch Logs Insights; use `jsonMessageFormatter({ include, exclude })` to pick fields.
+	 * By default the formatted winston message (or `message`) is sent as is.
+	 */
+	messageFormatter?: "json" | MessageFormatter;
+	/**
+	 * Redaction rules applied to every log entry before it is queued: built-in detectors
+	 * (AWS keys, JWTs, credit card numbers, email addresses, bearer tokens), custom patterns and key paths.
+	 * Each rule masks, hashes or drops what it matches.
+	 */
+	redact?: RedactionRule[];
+	/**
+	 * Levels whose entries are sent before the others and never dropped when the queue is full.
+	 * Other entries are dropped to make room for them. Pass an empty array to treat every level alike.
+	 * @default ["error", "warn"]
+	 */
+	priorityLevels?: string[];
+	/**
+	 * Send only a fraction of the entries per level or message key, e.g. `{ levels: { debug: 0.1 } }`,
+	 * and rate limit similar entries. Suppressed entries are summarized with a "N similar messages suppressed" entry
+	 * and a `suppressed` event.
+	 */
+	sampling?: SamplingOptions;
+	/**
+	 * Collapse identical messages queued within `window` milliseconds into a single event,
+	 * e.g. `message [repeated 12 times, first 2024-01-01T00:00:00.000Z, last 2024-01-01T00:00:04.210Z]`.
+	 * Use `key: "template"` to also collapse messages differing only in numbers, IDs and timestamps.
+	 * Disabled by default.
+	 */
+	dedup?: DedupOptions;
+	/**
+	 * Emit a `stats` event with the result of `getStats()` every this many milliseconds. Disabled by default.
+	 */
+	statsInterval?: number;
+	/**
+	 * Also write the stats as CloudWatch Embedded Metric Format lines to a separate stream of the log group,
+	 * so CloudWatch extracts them as metrics. Written every `statsInterval`, or every minute when it is not set.
+	 */
+	embeddedMetrics?: EmbeddedMetricsOptions;
+	/**
+	 * Emit `error` events when a batch cannot be sent or a log entry cannot be queued.
+	 * When the transport is added to a winston logger, winston re-emits them on the logger,
+	 * which crashes the process unless the logger has an `error` listener.
+	 * By default these failures are emitted as `warn` events instead, or written to `console.error` without a `warn` listener.
+	 * @default false
+	 */
+	emitErrors?: boolean;
+	/**
+	 * Never write to the console. Failures and warnings are then only reported through the `warn` and `error` events.
+	 * @default false
+	 */
+	silenceConsole?: boolean;
+	/**
+	 * Close the transport on SIGTERM, SIGINT and `beforeExit`, draining the queue within `timeout`.
+	 * After a signal, the signal is raised again once drained unless the application listens to it too.
+	 * @default false
+	 */
+	handleExitSignals?: boolean | ExitSignalOptions;
 } & TransportStream.TransportStreamOptions;
 
+/**
+ * What happened to a batch sent by `flush()`
+ */
+export type BatchOutcome = {
+	logGroupName: string;
+	/** Undefined when the log stream could not be resolved */
+	logStreamName: string | undefined;
+	count: number;
+	bytes: number;
+	/**
+	 * `"retrying"` when the batch failed with a retryable error and was queued again,
+	 * `"dropped"` when it failed with a permanent error or ran out of retries
+	 */
+	status: "sent" | "retrying" | "dropped";
+	error?: unknown;
+};
+
+export type FlushResult = {
+	batches: BatchOutcome[];
+	/** Number of events still queued, e.g. batches waiting for a retry */
+	unsent: number;
+};
+
+export type CloseOptions = {
+	/**
+	 * Time in milliseconds to wait for queued events to be sent. Waits until they are by default.
+	 */
+	timeout?: number;
+};
+
+export type CloseResult = {
+	/**
+	 * Number of events that were not sent. With a spool, they are sent on the next start.
+	 */
+	unsent: number;
+};
+
 export class CloudWatchLogsTransportStream extends TransportStream {
 	#client: CloudWatchLogsClient;
 	#logGroupName: string;
-	#logStreamGenerator!: LogStreamGenerator;
-	#logQueue: LogQueue;
+	#logStreamName: string | LogStreamNameStrategy | undefined;
+	#logStreamNamePrefix: string | undefined;
+	#createLogGroup: boolean | CreateLogGroupOptions | undefined;
+	#defaultDestination: LogDestination;
+	#destinations = new Map<string, LogDestination>();
+	/** Routed destinations with nothing queued are forgotten once idle for this long */
+	#DESTINATION_IDLE_TIMEOUT = 5 * 60 * 1000;
+	#lastDestinationSweep = Date.now();
+	#router: ((info: LogInfo) => LogDestinationRoute | undefined) | undefined;
+	#logQueueOptions: LogQueueOptions;
+	#spool: Spool | null = null;
 	#flushInterval: number;
+	#batchSize: number;
+	#batchSizeBytes: number;
 	#flushTimer: NodeJS.Timeout | null = null;
+	#adaptiveFlushInterval: AdaptiveFlushInterval | null;
+	#throttled = false;
 	#lock = new AsyncLock();
+	#retryPolicy: RetryPolicy;
+	#requestLimiter: RequestLimiter;
+	#rejectedLogEventsPolicy: RejectedLogEventsPolicy;
+	#timestampResolver: (info: LogInfo) => unknown;
+	#messageFormatter: MessageFormatter | null;
+	#redactor: Redactor | null;
+	#priorityLevels: Set<string>;
+	#sampler: Sampler | null;
+	#stats = new StatsCollector();
+	#statsInterval: number | null;
+	#statsTimer: NodeJS.Timeout | null = null;
+	#embeddedMetrics: Required<EmbeddedMetricsOptions> | null;
+	#lastEmbeddedMetrics: TransportStats | null = null;
+	#silenceConsole: boolean;
+	#emitErrors: boolean;
+	#exitSignalOptions: ExitSignalOptions | null;
+	#unhookExitSignals: (() => void) | null = null;
+	#closePromise: Promise<CloseResult> | null = null;
+	/** Set once the close timeout has passed. Batches still in flight are then left unsent. */
+	#closed = false;
 
 	private constructor(opts: CloudWatchLogsTransportStreamOptions) {
 		super(opts);
 		this.#logGroupName = opts.logGroupName;
-		this.#logQueue = new LogQueue();
+		this.#logStreamName = opts.logStreamName;
+		this.#logStreamNamePrefix = opts.logStreamNamePrefix;
+		this.#createLogGroup = opts.createLogGroup;
+		this.#router = opts.router;
+		this.#logQueueOptions = {
+			maxQueueEvents: opts.maxQueueEvents,
+			maxQueueBytes: opts.maxQueueBytes,
+			overflowPolicy: opts.overflowPolicy,
+			oversizePolicy: opts.oversizePolicy,
+			dedup: opts.dedup,
+		};
 		this.#flushInterval = opts.flushInterval ?? 3000; // 3 seconds default
+		this.#adaptiveFlushInterval = opts.adaptiveFlushInterval
+			? new AdaptiveFlushInterval(
+					this.#flushInterval,
+					opts.adaptiveFlushInterval === true ? {} : opts.adaptiveFlushInterval,
+				)
+			: null;
+		this.#batchSize = opts.batchSize ?? Number.POSITIVE_INFINITY;
+		this.#batchSizeBytes = opts.batchSizeBytes ?? Number.POSITIVE_INFINITY;
+		this.#retryPolicy = new RetryPolicy(opts.retryOptions);
+		this.#requestLimiter = new RequestLimiter({
+			maxConcurrentRequests: opts.maxConcurrentRequests,
+			maxRequestsPerSecond: opts.maxRequestsPerSecond,
+		});
+		this.#rejectedLogEventsPolicy = opts.rejectedLogEventsPolicy ?? "drop";
+		const timestampKey = opts.timestampKey ?? "timestamp";
+		this.#timestampResolver =
+			opts.timestampResolver ??
+			((info) => (typeof info === "string" ? undefined : info[timestampKey]));
+		this.#messageFormatter =
+			opts.messageFormatter === "json"
+				? jsonMessageFormatter()
+				: (opts.messageFormatter ?? null);
+		this.#redactor = opts.redact?.length ? createRedactor(opts.redact) : null;
+		this.#priorityLevels = new Set(opts.priorityLevels ?? ["error", "warn"]);
+		this.#sampler = opts.sampling
+			? new Sampler(opts.sampling, (suppressed) =>
+					this.#summarizeSuppressed(suppressed),
+				)
+			: null;
+		this.#silenceConsole = opts.silenceConsole ?? false;
+		this.#emitErrors = opts.emitErrors ?? false;
+		this.#exitSignalOptions =
+			opts.handleExitSignals === true ? {} : opts.handleExitSignals || null;
+		this.#embeddedMetrics = opts.embeddedMetrics
+			? {
+					logStreamName:
+						opts.embeddedMetrics.logStreamName ??
+						"winston-cloudwatch-logs-metrics",
+					namespace: opts.embeddedMetrics.namespace ?? "WinstonCloudWatchLogs",
+				}
+			: null;
+		this.#statsInterval =
+			opts.statsInterval ?? (this.#embeddedMetrics ? 60000 : null);
 		this.#client = new CloudWatchLogsClient(opts.cloudWatchLogsClientConfig);
-		this.#logStreamGenerator = LogStreamGenerator.create(
-			this.#client,
-			this.#logGroupName,
-			opts.logStreamNamePrefix,
+		this.#defaultDestination = this.#getDestination({});
+	}
+
+	/**
+	 * Returns the destination for a route, creating its queue and log stream generator on first use
+	 */
+	#getDestination(route: LogDestinationRoute): LogDestination {
+		const logGroupName = route.logGroupName ?? this.#logGroupName;
+		const key = getLogDestinationKey(logGroupName, route.logStreamName);
+		let destination = this.#destinations.get(key);
+		if (!destination) {
+			destination = {
+				key,
+				route,
+				logGroupName,
+				logQueue: new LogQueue(this.#logQueueOptions),
+				logStreamGenerator: LogStreamGenerator.create(
+					this.#client,
+					logGroupName,
+					{
+						logStreamName: route.logStreamName ?? this.#logStreamName,
+						logStreamNamePrefix: this.#logStreamNamePrefix,
+						createLogGroup: this.#createLogGroup,
+						onStreamCreated: (logStreamName) =>
+							this.emit("streamCreated", { logGroupName, logStreamName }),
+					},
+				),
+				retryAttempt: 0,
+				inFlight: 0,
+				lastActive: Date.now(),
+				retryTimer: null,
+				capacityWaiters: [],
+			};
+			this.#destinations.set(key, destination);
+		}
+		return destination;
+	}
+
+	/**
+	 * Writes a message to the spool, if enabled, and adds it to the destination queue
+	 */
+	#accept(
+		destination: LogDestination,
+		message: string,
+		timestamp: number,
+		priority = false,
+	) {
+		const segment = this.#spool?.write({
+			route: destination.route,
+			message,
+			timestamp,
+			priority,
+		});
+		this.#enqueue(destination, message, timestamp, segment, priority);
+	}
+
+	/**
+	 * Adds a message to the destination queue and reports events dropped by the overflow policy
+	 */
+	#enqueue(
+		destination: LogDestination,
+		message: string,
+		timestamp: number,
+		segment?: SpoolSegment,
+		priority = false,
+	) {
+		destination.lastActive = Date.now();
+		const { events, dropped, oversize } = destination.logQueue.add(
+			message,
+			timestamp,
+			priority,
 		);
+		this.#stats.recordQueued(events.length);
+		if (events.length > 0) {
+			this.#armFlushTimer();
+		}
+		this.#stats.recordDropped(dropped.length + (oversize === "drop" ? 1 : 0));
+		if (oversize === "truncate") {
+			this.#stats.recordTruncated(1);
+		}
+		if (this.#spool && segment) {
+			for (const event of events) {
+				this.#spool.bind(event, segment);
+			}
+			this.#spool.release(segment);
+			this.#spool.ack(dropped);
+		}
+		if (this.#isBatchReady(destination)) {
+			this.#triggerFlush(destination);
+		}
+		if (oversize === "drop") {
+			const droppedLogEvents: DroppedLogEvents = {
+				reason: "oversize",
+				count: 1,
+				logGroupName: destination.logGroupName,
+			};
+			this.emit("dropped", droppedLogEvents);
+		}
+		if (dropped.length > 0) {
+			const droppedLogEvents: DroppedLogEvents = {
+				reason: "overflow",
+				count: dropped.length,
+				logGroupName: destination.logGroupName,
+			};
+			this.emit("dropped", droppedLogEvents);
+		}
 	}
 
-	#startFlushTimer() {
-		if (this.#flushTimer) {
-			clearInterval(this.#flushTimer);
+	async #waitForCapacity(destination: LogDestination) {
+		while (destination.logQueue.isFull() && !this.#closePromise) {
+			await new Promise<void>((resolve) =>
+				destination.capacityWaiters.push(resolve),
+			);
+		}
+	}
+
+	#releaseCapacityWaiters(destination: LogDestination) {
+		if (destination.logQueue.isFull()) {
+			return;
+		}
+		for (const resolve of destination.capacityWaiters.splice(0)) {
+			resolve();
+		}
+	}
+
+	/**
+	 * Starts the flush timer if it is not running. It is unref'd, so it never keeps the process alive.
+	 */
+	#armFlushTimer() {
+		if (this.#flushTimer || this.#closePromise) {
+			return;
+		}
+		this.#flushTimer = setTimeout(
+			() => this.#onFlushTimer().catch((error) => this.#onFlushFailure(error)),
+			this.#adaptiveFlushInterval?.current() ?? this.#flushInterval,
+		);
+		this.#flushTimer.unref();
+	}
+
+	async #onFlushTimer() {
+		this.#flushTimer = null;
+		if (this.#adaptiveFlushInterval) {
+			let fill = 0;
+			for (const { logQueue } of this.#destinations.values()) {
+				fill = Math.max(fill, logQueue.fill());
+			}
+			this.#adaptiveFlushInterval.update({ fill, throttled: this.#throttled });
+			this.#throttled = false;
+		}
+		try {
+			await this.#flush();
+		} finally {
+			this.#forgetIdleDestinations();
+			for (const { logQueue } of this.#destinations.values()) {
+				if (logQueue.size() > 0) {
+					this.#armFlushTimer();
+					break;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Reports a flush started in the background that threw, e.g. from an event listener
+	 */
+	#onFlushFailure(error: unknown) {
+		this.#reportError("Failed to flush logs to CloudWatch:", error);
+	}
+
+	/**
+	 * Forgets routed destinations that have nothing queued or in flight and stayed idle,
+	 * so routing by e.g. tenant does not keep a queue and log stream generator per tenant forever.
+	 * Runs at most once per idle timeout.
+	 */
+	#forgetIdleDestinations() {
+		const now = Date.now();
+		if (now - this.#lastDestinationSweep < this.#DESTINATION_IDLE_TIMEOUT) {
+			return;
+		}
+		this.#lastDestinationSweep = now;
+		for (const [key, destination] of this.#destinations) {
+			if (
+				destination !== this.#defaultDestination &&
+				now - destination.lastActive >= this.#DESTINATION_IDLE_TIMEOUT &&
+				destination.logQueue.size() === 0 &&
+				destination.inFlight === 0 &&
+				!destination.retryTimer &&
+				destination.capacityWaiters.length === 0 &&
+				!this.#lock.isBusy(this.#getFlushLockKey(destination))
+			) {
+				this.#destinations.delete(key);
+			}
+		}
+	}
+
+	/**
+	 * Stops the flush timer once every queue is empty, so an idle transport holds no timer
+	 */
+	#disarmFlushTimerIfIdle() {
+		if (!this.#flushTimer) {
+			return;
+		}
+		for (const { logQueue } of this.#destinations.values()) {
+			if (logQueue.size() > 0) {
+				return;
+			}
+		}
+		clearTimeout(this.#flushTimer);
+		this.#flushTimer = null;
+	}
+
+	/**
+	 * Schedules the next flush attempt of a destination after the backoff delay.
+	 * Timer flushes of that destination are skipped until it fires.
+	 */
+	#scheduleRetry(destination: LogDestination): number {
+		destination.retryAttempt++;
+		const delay = this.#retryPolicy.getDelay(destination.retryAttempt);
+		destination.retryTimer = setTimeout(() => {
+			destination.retryTimer = null;
+			this.#flushDestination(destination).catch((error) =>
+				this.#onFlushFailure(error),
+			);
+		}, delay);
+		return delay;
+	}
+
+	#clearRetryTimers() {
+		for (const destination of this.#destinations.values()) {
+			if (destination.retryTimer) {
+				clearTimeout(destination.retryTimer);
+				destination.retryTimer = null;
+			}
 		}
-		this.#flushTimer = setInterval(() => this.#flush(), this.#flushInterval);
 	}
 
 	async #flush() {
-		await this.#lock.acquire("flush-cloudwatch-logs", async () => {
-			try {
-				let hasMore = true;
-				while (hasMore) {
-					const { batch, hasMore: remaining } = this.#logQueue.getNextBatch();
-					if (batch.length === 0) break;
+		await Promise.all(
+			[...this.#destinations.values()].map((destination) =>
+				this.#flushDestination(destination),
+			),
+		);
+	}
+
+	/**
+	 * Whether enough events are queued for the destination to flush without waiting for the timer
+	 */
+	#isBatchReady(destination: LogDestination): boolean {
+		return (
+			destination.logQueue.size() >= this.#batchSize ||
+			destination.logQueue.bytes() >= this.#batchSizeBytes
+		);
+	}
+
+	/**
+	 * Starts a flush of the destination right away. Skipped while a flush is in flight,
+	 * which checks the queue again once it is over.
+	 */
+	#triggerFlush(destination: LogDestination) {
+		if (this.#lock.isBusy(this.#getFlushLockKey(destination))) {
+			return;
+		}
+		this.#flushDestination(destination).catch((error) =>
+			this.#onFlushFailure(error),
+		);
+	}
+
+	#getFlushLockKey(destination: LogDestination): string {
+		return `flush-cloudwatch-logs:${destination.key}`;
+	}
 
+	/**
+	 * Sends what is queued for the destination. Events queued while a batch is being sent
+	 * are left to the flush timer, or to the next flush once they fill a batch.
+	 * @param outcomes Collects what happened to each batch
+	 */
+	async #flushDestination(
+		destination: LogDestination,
+		outcomes?: BatchOutcome[],
+	) {
+		if (destination.retryTimer) {
+			return;
+		}
+		const { logGroupName, logQueue, logStreamGenerator } = destination;
+		await this.#lock.acquire(this.#getFlushLockKey(destination), async () => {
+			// Re-timestamped events are queued once this flush is over, so an event
+			// CloudWatch keeps rejecting cannot keep the loop going
+			const resend: LogEvent[] = [];
+			let resolvedAgain = false;
+			let hasMore = true;
+			while (hasMore) {
+				const { batch, bytes, hasMore: remaining } = logQueue.getNextBatch();
+				if (batch.length === 0) break;
+				this.#releaseCapacityWaiters(destination);
+				destination.inFlight = batch.length;
+				const outcome: BatchOutcome = {
+					logGroupName,
+					logStreamName: undefined,
+					count: batch.length,
+					bytes,
+					status: "sent",
+				};
+				outcomes?.push(outcome);
+
+				let sent: {
+					logStreamName: string;
+					response: PutLogEventsCommandOutput | undefined;
+				} | null = null;
+				try {
+					const logStreamName =
+						await logStreamGenerator.getCurrentLogStreamName();
+					outcome.logStreamName = logStreamName;
 					const params: PutLogEventsCommandInput = {
-						logGroupName: this.#logGroupName,
-						logStreamName:
-							await this.#logStreamGenerator.getCurrentLogStreamName(),
+						logGroupName,
+						logStreamName,
 						logEvents: batch,
 					};
 					const command = new PutLogEventsCommand(params);
-					await this.#client.send(command);
-					hasMore = remaining;
+					let latency = 0;
+					const response = await this.#requestLimiter.run(async () => {
+						const startedAt = performance.now();
+						const output = await this.#client.send(command);
+						latency = performance.now() - startedAt;
+						return output;
+					});
+					this.#stats.recordSent(batch.length, bytes, latency);
+					destination.retryAttempt = 0;
+					this.#spool?.ack(batch);
+					sent = { logStreamName, response };
+				} catch (error) {
+					outcome.error = error;
+					if (this.#closed) {
+						outcome.status = "retrying";
+						// Left for the spool, if any, to send on the next start
+						logQueue.requeue(batch);
+						break;
+					}
+					if (
+						isResourceNotFound(error) &&
+						outcome.logStreamName !== undefined &&
+						!resolvedAgain
+					) {
+						// The stream or its group was deleted: check (and create) them again and resend once
+						resolvedAgain = true;
+						outcome.status = "retrying";
+						logStreamGenerator.forgetLogStream();
+						logQueue.requeue(batch);
+						continue;
+					}
+					this.#stats.recordFailure(error);
+					if ((error as Error | undefined)?.name === "ThrottlingException") {
+						this.#throttled = true;
+					}
+					if (this.#retryPolicy.shouldRetry(error, destination.retryAttempt)) {
+						logQueue.requeue(batch);
+						outcome.status = "retrying";
+						const delay = this.#scheduleRetry(destination);
+						this.#warn(
+							`Failed to flush logs to CloudWatch, retrying in ${Math.round(delay)}ms`,
+							error,
+						);
+						break;
+					}
+					destination.retryAttempt = 0;
+					this.#spool?.ack(batch);
+					outcome.status = "dropped";
+					this.#stats.recordDropped(batch.length);
+					const dropped: DroppedLogEvents = {
+						reason: "failed",
+						count: batch.length,
+						logGroupName,
+					};
+					this.emit("dropped", dropped);
+					this.#reportError("Failed to flush logs to CloudWatch:", error);
+				} finally {
+					destination.inFlight = 0;
+				}
+				// Outside the try, so a throwing listener cannot turn a sent batch into a dropped one
+				if (sent) {
+					const flushed: FlushedLogEvents = {
+						count: batch.length,
+						bytes,
+						logGroupName,
+						logStreamName: sent.logStreamName,
+					};
+					this.emit("flushed", flushed);
+					resend.push(
+						...(await this.#handleRejectedLogEvents(
+							destination,
+							batch,
+							sent.logStreamName,
+							sent.response?.rejectedLogEventsInfo,
+						)),
+					);
 				}
-			} catch (error) {
-				console.error("Failed to flush logs to CloudWatch:", error);
+				hasMore = remaining;
+			}
+			for (const event of resend) {
+				this.#accept(destination, event.message, Date.now());
 			}
 		});
+		this.#disarmFlushTimerIfIdle();
+		// Triggers skipped while this flush was in flight
+		if (!this.#closePromise && this.#isBatchReady(destination)) {
+			this.#triggerFlush(destination);
+		}
+	}
+
+	/**
+	 * Emits a `rejected` event for every group of events CloudWatch refused and applies the configured policy
+	 * @returns {LogEvent[]} The events to send again with a new timestamp
+	 */
+	async #handleRejectedLogEvents(
+		destination: LogDestination,
+		batch: LogEvent[],
+		logStreamName: string,
+		info: PutLogEventsCommandOutput["rejectedLogEventsInfo"],
+	): Promise<LogEvent[]> {
+		const resend: LogEvent[] = [];
+		const groups = groupRejectedLogEvents(batch, info);
+		for (const [reason, logEvents] of groups) {
+			const rejected = {
+				reason,
+				logEvents,
+				logGroupName: destination.logGroupName,
+				logStreamName,
+			};
+			this.#stats.recordRejected(logEvents.length);
+			this.emit("rejected", rejected);
+
+			const policy = this.#rejectedLogEventsPolicy;
+			if (policy === "retimestamp" && reason !== "expired") {
+				resend.push(...logEvents);
+			} else if (typeof policy === "function") {
+				try {
+					await policy(rejected);
+				} catch (error) {
+					this.#warn("Rejected log events handler failed", error);
+				}
+			}
+		}
+		return resend;
 	}
 
 	static async create(
 		opts: CloudWatchLogsTransportStreamOptions,
 	): Promise<CloudWatchLogsTransportStream> {
 		const instance = new CloudWatchLogsTransportStream(opts);
-		instance.#startFlushTimer();
+		if (opts.spool) {
+			instance.#replaySpool(Spool.create(opts.spool));
+		}
+		instance.#startStatsTimer();
+		if (instance.#exitSignalOptions) {
+			const { timeout = 10000 } = instance.#exitSignalOptions;
+			instance.#unhookExitSignals = hookExitSignals(() =>
+				instance
+					.close({ timeout })
+					.catch((error) =>
+						instance.#reportError(
+							"Failed to close the transport on exit:",
+							error,
+						),
+					),
+			);
+		}
 		return instance;
 	}
 
+	/**
+	 * Queues the events left in the spool by a previous run
+	 */
+	#replaySpool(spool: Spool) {
+		this.#spool = spool;
+		for (const { record, segment } of spool.replay()) {
+			this.#enqueue(
+				this.#getDestination(record.route),
+				record.message,
+				record.timestamp,
+				segment,
+				record.priority,
+			);
+		}
+	}
+
+	/**
+	 * Returns counters for what the transport has done since it was created, and the current queue size
+	 */
+	public getStats(): TransportStats {
+		let depth = 0;
+		let bytes = 0;
+		for (const { logQueue } of this.#destinations.values()) {
+			depth += logQueue.size();
+			bytes += logQueue.bytes();
+		}
+		return this.#stats.snapshot({ depth, bytes });
+	}
+
+	#startStatsTimer() {
+		if (this.#statsInterval === null) {
+			return;
+		}
+		this.#statsTimer = setInterval(() => {
+			const stats = this.getStats();
+			this.emit("stats", stats);
+			this.#writeEmbeddedMetrics(stats);
+		}, this.#statsInterval);
+		this.#statsTimer.unref();
+	}
+
+	#writeEmbeddedMetrics(stats: TransportStats) {
+		if (!this.#embeddedMetrics) {
+			return;
+		}
+		const timestamp = Date.now();
+		const line = formatEmbeddedMetrics(stats, this.#lastEmbeddedMetrics, {
+			namespace: this.#embeddedMetrics.namespace,
+			logGroupName: this.#logGroupName,
+			timestamp,
+		});
+		this.#lastEmbeddedMetrics = stats;
+		this.#accept(
+			this.#getDestination({
+				logStreamName: this.#embeddedMetrics.logStreamName,
+			}),
+			line,
+			timestamp,
+		);
+	}
+
 	#extractMessage(info: LogInfo): string {
+		if (this.#messageFormatter) {
+			return this.#messageFormatter(info);
+		}
 		if (typeof info === "string") {
 			return info;
 		}
 		return info[MESSAGE_SYMBOL] ?? info.message ?? "";
 	}
 
-	public override async log(info: LogInfo, next: () => void) {
+	#extractTimestamp(info: LogInfo): number {
+		return parseTimestamp(this.#timestampResolver(info)) ?? Date.now();
+	}
+
+	public override async log(rawInfo: LogInfo, next: () => void) {
+		if (this.#closePromise) {
+			this.#refuse();
+			next();
+			return;
+		}
 		try {
-			const message = this.#extractMessage(info);
-			this.#logQueue.add(message);
+			const info = this.#redactor ? this.#redactor(rawInfo) : rawInfo;
+			if (!this.#sampler || this.#sampler.sample(info)) {
+				await this.#queueEntry(info);
+			}
 			next();
 		} catch (error) {
-			console.error("Failed to queue log:", error);
+			this.#reportError("Failed to queue log:", error);
 			next();
 		}
 	}
 
-	public override async close() {
+	/**
+	 * Formats a log entry and adds it to the queue of its destination
+	 */
+	async #queueEntry(info: LogInfo) {
+		const message = this.#extractMessage(info);
+		const route = this.#router?.(info);
+		let destination = route
+			? this.#getDestination(route)
+			: this.#defaultDestination;
+		const timestamp = this.#extractTimestamp(info);
+		const level = getLevel(info);
+		const priority = level !== undefined && this.#priorityLevels.has(level);
+		if (this.#logQueueOptions.overflowPolicy === "block") {
+			await this.#waitForCapacity(destination);
+			if (this.#closePromise) {
+				this.#refuse();
+				return;
+			}
+			if (route) {
+				// The destination may have been forgotten while waiting
+				destination = this.#getDestination(route);
+			}
+		}
+		this.#accept(destination, message, timestamp, priority);
+	}
+
+	/**
+	 * Emits a `suppressed` event and logs a summary of the entries the rate limit suppressed
+	 */
+	#summarizeSuppressed(suppressed: SuppressedLogEntries) {
+		this.emit("suppressed", suppressed);
+		const summary: LogInfo = {
+			level: getLevel(suppressed.info),
+			message: `${suppressed.count} similar messages suppressed: ${suppressed.key}`,
+			suppressedKey: suppressed.key,
+			suppressedCount: suppressed.count,
+		};
+		this.#queueEntry(summary).catch((error) =>
+			this.#reportError("Failed to queue log:", error),
+		);
+	}
+
+	#refuse() {
+		this.#stats.recordDropped(1);
+		const dropped: DroppedLogEvents = {
+			reason: "closed",
+			count: 1,
+			logGroupName: this.#logGroupName,
+		};
+		this.emit("dropped", dropped);
+	}
+
+	/**
+	 * Emits an `error` event when `emitErrors` is set. Otherwise writes to the console and emits `warn`,
+	 * as winston always listens to `error` and re-emits it on the logger, where it may crash the process.
+	 */
+	#reportError(message: string, error: unknown) {
+		if (this.#emitErrors) {
+			this.emit(
+				"error",
+				error instanceof Error ? error : new Error(String(error)),
+			);
+			return;
+		}
+		if (this.listenerCount("warn") > 0) {
+			this.emit("warn", { message, error });
+		} else if (!this.#silenceConsole) {
+			console.error(message, error);
+		}
+	}
+
+	#warn(message: string, error?: unknown) {
+		if (this.listenerCount("warn") > 0) {
+			this.emit("warn", { message, error });
+		} else if (!this.#silenceConsole) {
+			console.warn(message, error);
+		}
+	}
+
+	public override on<E extends string | symbol>(
+		event: E,
+		listener: TransportEventListener<E>,
+	): this {
+		return super.on(event, listener as (...args: unknown[]) => void);
+	}
+
+	public override once<E extends string | symbol>(
+		event: E,
+		listener: TransportEventListener<E>,
+	): this {
+		return super.once(event, listener as (...args: unknown[]) => void);
+	}
+
+	public override off<E extends string | symbol>(
+		event: E,
+		listener: TransportEventListener<E>,
+	): this {
+		return super.off(event, listener as (...args: unknown[]) => void);
+	}
+
+	public override emit<E extends string | symbol>(
+		event: E,
+		...args: TransportEventArgs<E>
+	): boolean {
+		return super.emit(event, ...args);
+	}
+
+	/**
+	 * Sends everything queued so far, without waiting for the flush timer or a pending retry,
+	 * and keeps the transport open. Use it where the process may be frozen between invocations, as in AWS Lambda.
+	 * Resolves once every batch was sent or failed; failures are reported in the result rather than thrown.
+	 */
+	public async flush(): Promise<FlushResult> {
+		const batches: BatchOutcome[] = [];
+		if (!this.#closePromise) {
+			this.#clearRetryTimers();
+			await Promise.all(
+				[...this.#destinations.values()].map((destination) =>
+					this.#flushDestination(destination, batches),
+				),
+			);
+		}
+		let unsent = 0;
+		for (const { logQueue } of this.#destinations.values()) {
+			unsent += logQueue.size();
+		}
+		return { batches, unsent };
+	}
+
+	/**
+	 * Sends the queued events and releases the client. Log entries arriving from now on are dropped.
+	 * Calling it again returns the result of the first call.
+	 */
+	public override close(opts: CloseOptions = {}): Promise<CloseResult> {
+		this.#closePromise ??= this.#close(opts.timeout);
+		return this.#closePromise;
+	}
+
+	async #close(timeout: number | undefined): Promise<CloseResult> {
+		this.#unhookExitSignals?.();
+		// Summaries are queued before the transport starts refusing entries
+		this.#sampler?.flush();
 		if (this.#flushTimer) {
-			clearInterval(this.#flushTimer);
+			clearTimeout(this.#flushTimer);
+			this.#flushTimer = null;
 		}
-		await this.#flush();
+		if (this.#statsTimer) {
+			clearInterval(this.#statsTimer);
+		}
+		for (const destination of this.#destinations.values()) {
+			for (const resolve of destination.capacityWaiters.splice(0)) {
+				resolve();
+			}
+		}
+		this.#clearRetryTimers();
+		await this.#withTimeout(this.#flush(), timeout);
+		this.#closed = true;
+		// Batches still failing at this point cannot be retried once the client is gone
+		this.#clearRetryTimers();
+
+		let unsent = 0;
+		for (const { logQueue, inFlight } of this.#destinations.values()) {
+			unsent += logQueue.size() + inFlight;
+		}
+		if (unsent > 0) {
+			this.#warn(`${unsent} log events were not sent before closing`);
+		}
+		this.#spool?.close();
 		this.#client.destroy();
+		return { unsent };
+	}
+
+	async #withTimeout(promise: Promise<void>, timeout: number | undefined) {
+		if (timeout === undefined) {
+			return promise;
+		}
+		let timer: NodeJS.Timeout | undefined;
+		try {
+			await Promise.race([
+				promise,
+				new Promise<void>((resolve) => {
+					timer = setTimeout(resolve, timeout);
+				}),
+			]);
+		} finally {
+			clearTimeout(timer);
+		}
 	}
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from "vitest";
+import { flushAfterInvocation } from "./lambda";
+
+describe("flushAfterInvocation", () => {
+	it("should flush after the handler returns", async () => {
+		const order: string[] = [];
+		const transport = {
+			flush: vi.fn(async () => {
+				order.push("flush");
+			}),
+		};
+		const handler = flushAfterInvocation(
+			transport,
+			async (event: { name: string }) => {
+				order.push("handler");
+				return `hello ${event.name}`;
+			},
+		);
+
+		await expect(handler({ name: "world" })).resolves.toBe("hello world");
+		expect(order).toEqual(["handler", "flush"]);
+	});
+
+	it("should flush every transport when the handler throws", async () => {
+		const transports = [
+			{ flush: vi.fn().mockResolvedValue({}) },
+			{ flush: vi.fn().mockResolvedValue({}) },
+		];
+		const error = new Error("boom");
+		const handler = flushAfterInvocation(transports, async () => {
+			throw error;
+		});
+
+		await expect(handler()).rejects.toBe(error);
+		expect(transports[0]?.flush).toHaveBeenCalled();
+		expect(transports[1]?.flush).toHaveBeenCalled();
+	});
+});
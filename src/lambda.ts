@@ -0,0 +1,19 @@
+/**
+ * Wraps an async AWS Lambda handler so the transports are flushed after every invocation,
+ * whether it succeeded or threw, before Lambda freezes the process.
+ * @example
+ * export const handler = flushAfterInvocation(transport, async (event, context) => { ... });
+ */
+export function flushAfterInvocation<TArgs extends unknown[], TResult>(
+	transports: { flush(): Promise<unknown> } | { flush(): Promise<unknown> }[],
+	handler: (...args: TArgs) => Promise<TResult>,
+): (...args: TArgs) => Promise<TResult> {
+	const targets = Array.isArray(transports) ? transports : [transports];
+	return async (...args) => {
+		try {
+			return await handler(...args);
+		} finally {
+			await Promise.all(targets.map((transport) => transport.flush()));
+		}
+	};
+}
@@ -0,0 +1,42 @@
+import type { LogQueue } from "./log-queue.js";
+import type { LogStreamGenerator } from "./log-stream-generator.js";
+
+/**
+ * Where a log entry should be sent. Omitted fields fall back to the transport options.
+ */
+export type LogDestinationRoute = {
+	logGroupName?: string;
+	logStreamName?: string;
+};
+
+/**
+ * A log group / stream pair with its own queue, flushed independently of other destinations
+ */
+export type LogDestination = {
+	key: string;
+	route: LogDestinationRoute;
+	logGroupName: string;
+	logQueue: LogQueue;
+	logStreamGenerator: LogStreamGenerator;
+	/**
+	 * Number of events in the batch being sent
+	 */
+	inFlight: number;
+	/**
+	 * When an event was last queued, to forget destinations that stay idle
+	 */
+	lastActive: number;
+	retryAttempt: number;
+	retryTimer: NodeJS.Timeout | null;
+	/**
+	 * Pending `log` calls waiting for room in a full queue with the `"block"` overflow policy
+	 */
+	capacityWaiters: (() => void)[];
+};
+
+export function getLogDestinationKey(
+	logGroupName: string,
+	logStreamName?: string,
+): string {
+	return JSON.stringify([logGroupName, logStreamName ?? null]);
+}
@@ -0,0 +1,63 @@
+import {
+	type CloudWatchLogsClient,
+	CreateLogGroupCommand,
+	PutRetentionPolicyCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+
+export type CreateLogGroupOptions = {
+	/**
+	 * Number of days to keep events. Only applied when the transport creates the log group.
+	 */
+	retentionInDays?: number;
+	/**
+	 * ARN of the KMS key used to encrypt the log group
+	 */
+	kmsKeyId?: string;
+	tags?: Record<string, string>;
+};
+
+/**
+ * Creates the log group unless it already exists. An existing log group is left untouched.
+ * @returns {boolean} Whether the log group was created
+ */
+export async function createLogGroup(
+	client: CloudWatchLogsClient,
+	logGroupName: string,
+	opts: CreateLogGroupOptions = {},
+): Promise<boolean> {
+	try {
+		await client.send(
+			new CreateLogGroupCommand({
+				logGroupName,
+				kmsKeyId: opts.kmsKeyId,
+				tags: opts.tags,
+			}),
+		);
+	} catch (error) {
+		if (isResourceAlreadyExists(error)) {
+			return false;
+		}
+		throw error;
+	}
+	return true;
+}
+
+export async function putRetentionPolicy(
+	client: CloudWatchLogsClient,
+	logGroupName: string,
+	retentionInDays: number,
+): Promise<void> {
+	await client.send(
+		new PutRetentionPolicyCommand({ logGroupName, retentionInDays }),
+	);
+}
+
+export function isResourceNotFound(error: unknown): boolean {
+	return (error as Error | undefined)?.name === "ResourceNotFoundException";
+}
+
+export function isResourceAlreadyExists(error: unknown): boolean {
+	return (
+		(error as Error | undefined)?.name === "ResourceAlreadyExistsException"
+	);
+}
@@ -0,0 +1,22 @@
+export const MESSAGE_SYMBOL = Symbol.for("message");
+export const LEVEL_SYMBOL = Symbol.for("level");
+
+export type LogInfo =
+	| {
+			[MESSAGE_SYMBOL]?: string;
+			[LEVEL_SYMBOL]?: string;
+			message?: string;
+			[key: string]: unknown;
+	  }
+	| string;
+
+/**
+ * Returns the level of a log entry. Prefers the one winston keeps uncolorized under `Symbol.for("level")`.
+ */
+export function getLevel(info: LogInfo): string | undefined {
+	if (typeof info === "string") {
+		return undefined;
+	}
+	const level = info[LEVEL_SYMBOL] ?? info.level;
+	return typeof level === "string" ? level : undefined;
+}
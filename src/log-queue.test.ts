@@ -17,6 +17,11 @@ describe("LogQueue", () => {
 			expect(queue.get()).toHaveLength(1);
 		});
 
+		it("should use the given timestamp", () => {
+			queue.add("test message", 1234);
+			expect(queue.get()[0]?.timestamp).toBe(1234);
+		});
+
 		it("should handle empty messages", () => {
 			queue.add("");
 			expect(queue.get()).toHaveLength(1);
@@ -39,6 +44,64 @@ describe("LogQueue", () => {
 		});
 	});
 
+	describe("oversize policy", () => {
+		const maxSize = 1048576 - 26;
+
+		it("should report truncated messages", () => {
+			expect(queue.add("small").oversize).toBeNull();
+			expect(queue.add("x".repeat(maxSize + 1)).oversize).toBe("truncate");
+		});
+
+		it("should split oversized messages into prefixed parts", () => {
+			const splitting = new LogQueue({ oversizePolicy: "split" });
+			const message = "x".repeat(maxSize * 2 + 10);
+			const { events, oversize } = splitting.add(message, 1000);
+
+			expect(oversize).toBe("split");
+			expect(events).toHaveLength(3);
+			const prefixes = events.map(
+				(event) =>
+					/^\[([0-9a-f-]{36})\] \[(\d)\/3\] /.exec(event.message) ?? [],
+			);
+			expect(prefixes.map((match) => match[2])).toEqual(["1", "2", "3"]);
+			expect(new Set(prefixes.map((match) => match[1])).size).toBe(1);
+
+			const encoder = new TextEncoder();
+			for (const event of events) {
+				expect(event.timestamp).toBe(1000);
+				expect(encoder.encode(event.message).length).toBeLessThanOrEqual(
+					maxSize,
+				);
+			}
+			const reassembled = events
+				.map((event) => event.message.replace(/^\[[^\]]+\] \[[^\]]+\] /, ""))
+				.join("");
+			expect(reassembled).toBe(message);
+		});
+
+		it("should never split inside a multi-byte character", () => {
+			const splitting = new LogQueue({ oversizePolicy: "split" });
+			const message = "😀".repeat(300000); // 1.2 MB
+			const { events } = splitting.add(message);
+
+			const reassembled = events
+				.map((event) => event.message.replace(/^\[[^\]]+\] \[[^\]]+\] /, ""))
+				.join("");
+			expect(reassembled).toBe(message);
+			expect(events.every((event) => !event.message.includes("\uFFFD"))).toBe(
+				true,
+			);
+		});
+
+		it("should drop oversized messages with the drop policy", () => {
+			const dropping = new LogQueue({ oversizePolicy: "drop" });
+			const { events, oversize } = dropping.add("x".repeat(maxSize + 1));
+			expect(events).toHaveLength(0);
+			expect(oversize).toBe("drop");
+			expect(dropping.size()).toBe(0);
+		});
+	});
+
 	describe("get", () => {
 		it("should return a copy of the queue", () => {
 			queue.add("message 1");
@@ -113,6 +176,198 @@ describe("LogQueue", () => {
 		});
 	});
 
+	describe("queue limits", () => {
+		it("should drop the oldest events by default", () => {
+			const bounded = new LogQueue({ maxQueueEvents: 2 });
+			expect(bounded.add("message 1").dropped).toHaveLength(0);
+			expect(bounded.add("message 2").dropped).toHaveLength(0);
+			expect(bounded.isFull()).toBe(true);
+			const { events, dropped } = bounded.add("message 3");
+			expect(events.map((event) => event.message)).toEqual(["message 3"]);
+			expect(dropped.map((event) => event.message)).toEqual(["message 1"]);
+			expect(bounded.get().map((event) => event.message)).toEqual([
+				"message 2",
+				"message 3",
+			]);
+		});
+
+		it("should drop the newest event with the drop-newest policy", () => {
+			const bounded = new LogQueue({
+				maxQueueEvents: 2,
+				overflowPolicy: "drop-newest",
+			});
+			bounded.add("message 1");
+			bounded.add("message 2");
+			const { events, dropped } = bounded.add("message 3");
+			expect(events).toHaveLength(0);
+			expect(dropped.map((event) => event.message)).toEqual(["message 3"]);
+			expect(bounded.get().map((event) => event.message)).toEqual([
+				"message 1",
+				"message 2",
+			]);
+		});
+
+		it("should enforce maxQueueBytes including the per-event overhead", () => {
+			// Each 10 byte message takes 36 bytes
+			const bounded = new LogQueue({ maxQueueBytes: 80 });
+			bounded.add("x".repeat(10));
+			bounded.add("y".repeat(10));
+			expect(bounded.bytes()).toBe(72);
+			expect(bounded.add("z".repeat(10)).dropped).toHaveLength(1);
+			expect(bounded.size()).toBe(2);
+			expect(bounded.bytes()).toBe(72);
+		});
+
+		it("should accept events beyond the limit with the block policy", () => {
+			const bounded = new LogQueue({
+				maxQueueEvents: 1,
+				overflowPolicy: "block",
+			});
+			bounded.add("message 1");
+			expect(bounded.add("message 2").dropped).toHaveLength(0);
+			expect(bounded.size()).toBe(2);
+		});
+
+		it("should free capacity when a batch is taken", () => {
+			const bounded = new LogQueue({ maxQueueEvents: 1 });
+			bounded.add("message 1");
+			expect(bounded.isFull()).toBe(true);
+			bounded.getNextBatch();
+			expect(bounded.isFull()).toBe(false);
+			expect(bounded.bytes()).toBe(0);
+		});
+	});
+
+	describe("priority", () => {
+		it("should send priority events first", () => {
+			queue.add("debug", 1);
+			queue.add("error", 2, true);
+			queue.add("info", 3);
+
+			expect(queue.getNextBatch().batch).toEqual([
+				{ message: "error", timestamp: 2 },
+			]);
+			expect(queue.getNextBatch().batch).toEqual([
+				{ message: "debug", timestamp: 1 },
+				{ message: "info", timestamp: 3 },
+			]);
+		});
+
+		it("should never drop priority events when the queue is full", () => {
+			const limited = new LogQueue({
+				maxQueueEvents: 2,
+				overflowPolicy: "drop-newest",
+			});
+			limited.add("debug 1");
+			limited.add("debug 2");
+			const { events, dropped } = limited.add("error", Date.now(), true);
+
+			expect(events).toHaveLength(1);
+			expect(dropped.map((event) => event.message)).toEqual(["debug 1"]);
+			limited.add("error 2", Date.now(), true);
+			limited.add("error 3", Date.now(), true);
+			expect(limited.get().map((event) => event.message)).toEqual([
+				"error",
+				"error 2",
+				"error 3",
+			]);
+		});
+
+		it("should requeue priority events as priority events", () => {
+			queue.add("info", 1);
+			queue.add("error", 2, true);
+			const { batch } = queue.getNextBatch();
+			queue.requeue(batch);
+			expect(queue.getNextBatch().batch).toEqual(batch);
+		});
+	});
+
+	describe("fill", () => {
+		it("should compare the queue to the batch limits", () => {
+			expect(queue.fill()).toBe(0);
+			for (let i = 0; i < 100; i++) {
+				queue.add("x");
+			}
+			expect(queue.fill()).toBe(0.01);
+
+			queue.reset();
+			queue.add("a".repeat(524288 - 26));
+			expect(queue.fill()).toBe(0.5);
+		});
+	});
+
+	describe("dedup", () => {
+		it("should collapse identical messages within the window", () => {
+			const dedup = new LogQueue({ dedup: { window: 1000 } });
+			expect(dedup.add("disk full", 0).events).toHaveLength(1);
+			expect(dedup.add("disk full", 400).events).toHaveLength(0);
+			dedup.add("other", 500);
+			dedup.add("disk full", 1000);
+			dedup.add("disk full", 1001);
+
+			expect(dedup.get()).toEqual([
+				{
+					message:
+						"disk full [repeated 3 times, first 1970-01-01T00:00:00.000Z, last 1970-01-01T00:00:01.000Z]",
+					timestamp: 0,
+				},
+				{ message: "other", timestamp: 500 },
+				{ message: "disk full", timestamp: 1001 },
+			]);
+		});
+
+		it("should keep the queue size in step with the collapsed message", () => {
+			const dedup = new LogQueue({ dedup: { window: 1000 } });
+			dedup.add("disk full", 0);
+			dedup.add("disk full", 1);
+			const { batch, bytes } = dedup.getNextBatch();
+			expect(bytes).toBe(
+				new TextEncoder().encode(batch[0]!.message).length + 26,
+			);
+			expect(dedup.bytes()).toBe(0);
+		});
+
+		it("should not collapse into an event that was already taken", () => {
+			const dedup = new LogQueue({ dedup: { window: 1000 } });
+			dedup.add("disk full", 0);
+			dedup.getNextBatch();
+			dedup.add("disk full", 1);
+			expect(dedup.get()).toEqual([{ message: "disk full", timestamp: 1 }]);
+		});
+
+		it("should collapse messages with the same template", () => {
+			const dedup = new LogQueue({ dedup: { window: 1000, key: "template" } });
+			dedup.add("retry 1 of 5", 0);
+			dedup.add("retry 2 of 5", 1);
+			expect(dedup.get().map((event) => event.message)).toEqual([
+				"retry 1 of 5 [repeated 2 times, first 1970-01-01T00:00:00.000Z, last 1970-01-01T00:00:00.001Z]",
+			]);
+		});
+
+		it("should not collapse priority and normal events together", () => {
+			const dedup = new LogQueue({ dedup: { window: 1000 } });
+			dedup.add("failed", 0);
+			dedup.add("failed", 1, true);
+			expect(dedup.size()).toBe(2);
+		});
+	});
+
+	describe("requeue", () => {
+		it("should put events back at the head of the queue", () => {
+			queue.add("message 1");
+			queue.add("message 2");
+			const { batch } = queue.getNextBatch();
+			queue.add("message 3");
+
+			queue.requeue(batch);
+			expect(queue.get().map((event) => event.message)).toEqual([
+				"message 1",
+				"message 2",
+				"message 3",
+			]);
+		});
+	});
+
 	describe("getNextBatch", () => {
 		it("should return empty batch when queue is empty", () => {
 			const { batch, hasMore } = queue.getNextBatch();
@@ -201,6 +456,52 @@ describe("LogQueue", () => {
 			// 最後のバッチ取得後はキューが空になっていることを確認
 			expect(queue.size()).toBe(0);
 		});
+		it("should return out-of-order events sorted by timestamp", () => {
+			queue.requeue([
+				{ message: "third", timestamp: 3000 },
+				{ message: "first", timestamp: 1000 },
+				{ message: "second", timestamp: 2000 },
+			]);
+
+			const { batch } = queue.getNextBatch();
+			expect(batch.map((event) => event.message)).toEqual([
+				"first",
+				"second",
+				"third",
+			]);
+		});
+
+		it("should keep insertion order for events with the same timestamp", () => {
+			queue.requeue([
+				{ message: "a", timestamp: 1000 },
+				{ message: "b", timestamp: 1000 },
+				{ message: "c", timestamp: 500 },
+			]);
+
+			const { batch } = queue.getNextBatch();
+			expect(batch.map((event) => event.message)).toEqual(["c", "a", "b"]);
+		});
+
+		it("should split batches that span more than 24 hours", () => {
+			const day = 24 * 60 * 60 * 1000;
+			queue.requeue([
+				{ message: "next day", timestamp: day + 1 },
+				{ message: "start", timestamp: 0 },
+				{ message: "exactly 24h", timestamp: day },
+			]);
+
+			const first = queue.getNextBatch();
+			expect(first.batch.map((event) => event.message)).toEqual([
+				"start",
+				"exactly 24h",
+			]);
+			expect(first.hasMore).toBe(true);
+
+			const second = queue.getNextBatch();
+			expect(second.batch.map((event) => event.message)).toEqual(["next day"]);
+			expect(second.hasMore).toBe(false);
+		});
+
 		it("should process all messages in multiple batches", () => {
 			const mediumMessage = "x".repeat(300000); // ~0.3MB
 
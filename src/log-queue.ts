@@ -1,40 +1,340 @@
+import { randomUUID } from "node:crypto";
+import {
+	type DedupOptions,
+	formatRepeatedMessage,
+	getDedupKeyFunction,
+} from "./dedup.js";
+
 export type LogEvent = {
 	message: string;
 	timestamp: number;
 };
 
+/**
+ * What to do when an event is added to a full queue.
+ * - `"drop-oldest"`: discard the oldest queued events to make room
+ * - `"drop-newest"`: discard the event being added
+ * - `"block"`: accept the event; the caller is expected to wait for `isFull()` to clear before adding more
+ */
+export type OverflowPolicy = "drop-oldest" | "drop-newest" | "block";
+
+/**
+ * What to do with a message larger than CloudWatch's per-event limit.
+ * - `"truncate"`: cut it and append `[TRUNCATED]`
+ * - `"split"`: send it as several events, each prefixed with a shared correlation ID and its part index
+ * - `"drop"`: discard it
+ */
+export type OversizePolicy = "truncate" | "split" | "drop";
+
+export type LogQueueOptions = {
+	/**
+	 * Maximum number of queued events
+	 * @default Infinity
+	 */
+	maxQueueEvents?: number;
+	/**
+	 * Maximum size of queued events in bytes, including the per-event overhead
+	 * @default Infinity
+	 */
+	maxQueueBytes?: number;
+	/**
+	 * @default "drop-oldest"
+	 */
+	overflowPolicy?: OverflowPolicy;
+	/**
+	 * @default "truncate"
+	 */
+	oversizePolicy?: OversizePolicy;
+	/**
+	 * Collapse identical messages queued within a time window into a single event,
+	 * with the repeat count and the first and last timestamps appended
+	 */
+	dedup?: DedupOptions;
+};
+
+/**
+ * A queued event that identical messages were collapsed into
+ */
+type RepeatedEvent = {
+	event: LogEvent;
+	message: string;
+	count: number;
+	first: number;
+	last: number;
+};
+
+export type AddResult = {
+	/** The events queued for the message. Empty when the message was collapsed into a queued event. */
+	events: LogEvent[];
+	/** Events dropped to respect the queue limits, possibly including the new ones */
+	dropped: LogEvent[];
+	/** The oversize policy applied to the message, or null when it was within the limit */
+	oversize: OversizePolicy | null;
+};
+
 export class LogQueue {
 	#MAX_BATCH_SIZE = 1048576; // 1 MB
 	#MAX_LOG_EVENT_SIZE = 1048576; // 1 MB - 26 bytes (overhead)
 	#MAX_EVENTS_PER_BATCH = 10000; // CloudWatch's limit
 	#EVENT_OVERHEAD = 26; // 26 bytes per event
+	#MAX_BATCH_TIME_SPAN = 24 * 60 * 60 * 1000; // 24 hours
 	#queue: LogEvent[] = [];
+	/** Events sent before `#queue`, and never dropped to respect the queue limits */
+	#priorityQueue: LogEvent[] = [];
+	#priorityEvents = new WeakSet<LogEvent>();
+	#queueBytes = 0;
+	#maxQueueEvents: number;
+	#maxQueueBytes: number;
+	#overflowPolicy: OverflowPolicy;
+	#oversizePolicy: OversizePolicy;
+	#dedupWindow: number | null;
+	#dedupKey: (message: string) => string;
+	/** Queued events open to collapsing, by dedup key */
+	#repeats = new Map<string, RepeatedEvent>();
+	#repeatKeys = new WeakMap<LogEvent, string>();
+
+	constructor(opts: LogQueueOptions = {}) {
+		this.#maxQueueEvents = opts.maxQueueEvents ?? Number.POSITIVE_INFINITY;
+		this.#maxQueueBytes = opts.maxQueueBytes ?? Number.POSITIVE_INFINITY;
+		this.#overflowPolicy = opts.overflowPolicy ?? "drop-oldest";
+		this.#oversizePolicy = opts.oversizePolicy ?? "truncate";
+		this.#dedupWindow = opts.dedup?.window ?? null;
+		this.#dedupKey = getDedupKeyFunction(opts.dedup?.key);
+	}
+
+	/**
+	 * Add a log event to the queue, applying the oversize policy to large messages
+	 * and the overflow policy when the queue is full
+	 * @param timestamp Epoch milliseconds of the event. Defaults to the current time.
+	 * @param priority Send the event before other events and never drop it when the queue is full.
+	 * Other events are still dropped to make room for it.
+	 */
+	add(
+		message: string,
+		timestamp: number = Date.now(),
+		priority = false,
+	): AddResult {
+		const maxSize = this.#MAX_LOG_EVENT_SIZE - this.#EVENT_OVERHEAD;
+		const messageSize = new TextEncoder().encode(message).length;
+		if (messageSize <= maxSize) {
+			// Leave room for the repeat suffix
+			if (this.#dedupWindow !== null && messageSize <= maxSize - 128) {
+				return this.#addRepeatable(message, timestamp, priority);
+			}
+			return {
+				...this.#push({ message, timestamp }, priority),
+				oversize: null,
+			};
+		}
+
+		const result: AddResult = {
+			events: [],
+			dropped: [],
+			oversize: this.#oversizePolicy,
+		};
+		if (this.#oversizePolicy === "drop") {
+			return result;
+		}
+		const messages =
+			this.#oversizePolicy === "split"
+				? this.#splitMessage(message)
+				: [this.#truncateMessage(message)];
+		for (const part of messages) {
+			const { events, dropped } = this.#push(
+				{ message: part, timestamp },
+				priority,
+			);
+			result.events.push(...events);
+			result.dropped.push(...dropped);
+		}
+		// A part may push out an earlier part of the same message
+		result.events = result.events.filter(
+			(event) => !result.dropped.includes(event),
+		);
+		return result;
+	}
+
+	/**
+	 * Collapses the message into a queued identical event first seen within the dedup window,
+	 * or queues it as a new event open to collapsing
+	 */
+	#addRepeatable(
+		message: string,
+		timestamp: number,
+		priority: boolean,
+	): AddResult {
+		const key = `${priority ? "priority" : "normal"}:${this.#dedupKey(message)}`;
+		const repeated = this.#repeats.get(key);
+		if (
+			repeated &&
+			Math.max(repeated.last, timestamp) -
+				Math.min(repeated.first, timestamp) <=
+				this.#dedupWindow!
+		) {
+			repeated.count++;
+			repeated.first = Math.min(repeated.first, timestamp);
+			repeated.last = Math.max(repeated.last, timestamp);
+			const { event } = repeated;
+			this.#queueBytes -= this.#calculateMessageSize(event.message);
+			event.message = formatRepeatedMessage(
+				repeated.message,
+				repeated.count,
+				repeated.first,
+				repeated.last,
+			);
+			event.timestamp = repeated.first;
+			this.#queueBytes += this.#calculateMessageSize(event.message);
+			return { events: [], dropped: [], oversize: null };
+		}
+
+		const event = { message, timestamp };
+		const result = this.#push(event, priority);
+		if (result.events.includes(event)) {
+			if (repeated) {
+				this.#repeatKeys.delete(repeated.event);
+			}
+			this.#repeats.set(key, {
+				event,
+				message,
+				count: 1,
+				first: timestamp,
+				last: timestamp,
+			});
+			this.#repeatKeys.set(event, key);
+		}
+		return { ...result, oversize: null };
+	}
 
 	/**
-	 * Add a log event to the queue
+	 * Stops collapsing messages into an event that left the queue
 	 */
-	add(message: string): void {
-		const safeMessage = this.#truncateMessage(message);
-		this.#queue.push({ message: safeMessage, timestamp: Date.now() });
+	#forgetRepeats(events: LogEvent[]) {
+		for (const event of events) {
+			const key = this.#repeatKeys.get(event);
+			if (key === undefined) {
+				continue;
+			}
+			this.#repeatKeys.delete(event);
+			if (this.#repeats.get(key)?.event === event) {
+				this.#repeats.delete(key);
+			}
+		}
 	}
 
 	/**
-	 * Get the next batch of logs that fits within the size limit
-	 * @returns {LogEvent[]} The next batch of logs and whether there are more logs to process
+	 * Queues an event that fits within the per-event limit, applying the overflow policy
 	 */
-	getNextBatch(): { batch: LogEvent[]; hasMore: boolean } {
-		if (this.#queue.length === 0) {
-			return { batch: [], hasMore: false };
+	#push(
+		event: LogEvent,
+		priority: boolean,
+	): { events: LogEvent[]; dropped: LogEvent[] } {
+		const eventSize = this.#calculateMessageSize(event.message);
+		const dropped: LogEvent[] = [];
+
+		if (
+			this.#overflowPolicy === "drop-oldest" ||
+			(priority && this.#overflowPolicy === "drop-newest")
+		) {
+			while (this.#queue.length > 0 && !this.#canFit(eventSize)) {
+				const oldest = this.#queue.shift()!;
+				this.#queueBytes -= this.#calculateMessageSize(oldest.message);
+				dropped.push(oldest);
+			}
+		}
+		if (
+			!priority &&
+			this.#overflowPolicy !== "block" &&
+			!this.#canFit(eventSize)
+		) {
+			dropped.push(event);
+			this.#forgetRepeats(dropped);
+			return { events: [], dropped };
 		}
 
+		if (priority) {
+			this.#priorityQueue.push(event);
+			this.#priorityEvents.add(event);
+		} else {
+			this.#queue.push(event);
+		}
+		this.#queueBytes += eventSize;
+		this.#forgetRepeats(dropped);
+		return { events: [event], dropped };
+	}
+
+	/**
+	 * Put events back at the head of the queue, e.g. a batch that failed to send.
+	 * These events were already accepted, so queue limits are not applied.
+	 */
+	requeue(events: LogEvent[]): void {
+		const priority = events.filter((event) => this.#priorityEvents.has(event));
+		const others = events.filter((event) => !this.#priorityEvents.has(event));
+		this.#priorityQueue = [...priority, ...this.#priorityQueue];
+		this.#queue = [...others, ...this.#queue];
+		for (const event of events) {
+			this.#queueBytes += this.#calculateMessageSize(event.message);
+		}
+	}
+
+	/**
+	 * Whether the queue has reached one of its limits
+	 */
+	isFull(): boolean {
+		return (
+			this.size() >= this.#maxQueueEvents ||
+			this.#queueBytes >= this.#maxQueueBytes
+		);
+	}
+
+	/**
+	 * Size of queued events in bytes, including the per-event overhead
+	 */
+	bytes(): number {
+		return this.#queueBytes;
+	}
+
+	/**
+	 * How close the queued events are to filling a batch (1 MB or 10,000 events), from 0 up
+	 */
+	fill(): number {
+		return Math.max(
+			this.size() / this.#MAX_EVENTS_PER_BATCH,
+			this.#queueBytes / this.#MAX_BATCH_SIZE,
+		);
+	}
+
+	#canFit(eventSize: number): boolean {
+		return (
+			this.size() + 1 <= this.#maxQueueEvents &&
+			this.#queueBytes + eventSize <= this.#maxQueueBytes
+		);
+	}
+
+	/**
+	 * Get the next batch of logs that fits within the size limit.
+	 * Priority events are sent first. Events are sent in chronological order and a batch never spans more than 24 hours.
+	 * @returns The next batch of logs, its size in bytes and whether there are more logs to process
+	 */
+	getNextBatch(): { batch: LogEvent[]; bytes: number; hasMore: boolean } {
+		const queue =
+			this.#priorityQueue.length > 0 ? this.#priorityQueue : this.#queue;
+		if (queue.length === 0) {
+			return { batch: [], bytes: 0, hasMore: false };
+		}
+
+		// Stable sort, so events with the same timestamp keep their insertion order
+		queue.sort((a, b) => a.timestamp - b.timestamp);
+
 		const batch: LogEvent[] = [];
 		let currentBatchSize = 0;
+		const firstTimestamp = queue[0]!.timestamp;
 
-		for (const event of this.#queue) {
+		for (const event of queue) {
 			const eventSize = this.#calculateMessageSize(event.message);
 			if (
 				currentBatchSize + eventSize > this.#MAX_BATCH_SIZE ||
-				batch.length >= this.#MAX_EVENTS_PER_BATCH
+				batch.length >= this.#MAX_EVENTS_PER_BATCH ||
+				event.timestamp - firstTimestamp > this.#MAX_BATCH_TIME_SPAN
 			) {
 				break;
 			}
@@ -43,28 +343,34 @@ export class LogQueue {
 		}
 
 		// Remove processed events from the queue
-		this.#queue = this.#queue.slice(batch.length);
+		queue.splice(0, batch.length);
+		this.#queueBytes -= currentBatchSize;
+		this.#forgetRepeats(batch);
 
 		return {
 			batch,
-			hasMore: this.#queue.length > 0,
+			bytes: currentBatchSize,
+			hasMore: this.size() > 0,
 		};
 	}
 
 	get(): LogEvent[] {
 		// Create a deep copy of the queue
-		return this.#queue.map((event) => ({
+		return [...this.#priorityQueue, ...this.#queue].map((event) => ({
 			message: event.message,
 			timestamp: event.timestamp,
 		}));
 	}
 
 	size(): number {
-		return this.#queue.length;
+		return this.#priorityQueue.length + this.#queue.length;
 	}
 
 	reset(): void {
 		this.#queue = [];
+		this.#priorityQueue = [];
+		this.#queueBytes = 0;
+		this.#repeats.clear();
 	}
 
 	/**
@@ -75,6 +381,37 @@ export class LogQueue {
 		return encoder.encode(message).length + this.#EVENT_OVERHEAD;
 	}
 
+	/**
+	 * Splits a message into parts that each fit within CloudWatch's per-event limit once prefixed
+	 * with `[<correlation ID>] [<part>/<total>] `. Parts are cut on UTF-8 character boundaries.
+	 */
+	#splitMessage(message: string): string[] {
+		const bytes = new TextEncoder().encode(message);
+		const decoder = new TextDecoder();
+		// Room for "[<36 character UUID>] [<part>/<total>] "
+		const prefixBudget = 64;
+		const maxPartSize =
+			this.#MAX_LOG_EVENT_SIZE - this.#EVENT_OVERHEAD - prefixBudget;
+
+		const parts: string[] = [];
+		let start = 0;
+		while (start < bytes.length) {
+			let end = Math.min(start + maxPartSize, bytes.length);
+			// Never cut inside a multi-byte character (continuation bytes are 10xxxxxx)
+			while (end < bytes.length && ((bytes[end] ?? 0) & 0xc0) === 0x80) {
+				end--;
+			}
+			parts.push(decoder.decode(bytes.subarray(start, end)));
+			start = end;
+		}
+
+		const correlationId = randomUUID();
+		return parts.map(
+			(part, index) =>
+				`[${correlationId}] [${index + 1}/${parts.length}] ${part}`,
+		);
+	}
+
 	/**
 	 * Check if a message needs to be truncated and return the safe version
 	 * Uses binary search to efficiently find the maximum safe length that fits within CloudWatch's size limit
@@ -0,0 +1,233 @@
+import {
+	type CloudWatchLogsClient,
+	CreateLogGroupCommand,
+	CreateLogStreamCommand,
+	DescribeLogStreamsCommand,
+	PutRetentionPolicyCommand,
+} from "@aws-sdk/client-cloudwatch-logs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LogStreamGenerator } from "./log-stream-generator";
+import { logStreamNameStrategies } from "./log-stream-name";
+
+vi.mock("@aws-sdk/client-cloudwatch-logs", () => ({
+	CreateLogGroupCommand: vi.fn(),
+	CreateLogStreamCommand: vi.fn(),
+	DescribeLogStreamsCommand: vi.fn(),
+	PutRetentionPolicyCommand: vi.fn(),
+}));
+
+describe("LogStreamGenerator", () => {
+	const mockClient = { send: vi.fn() };
+	const client = mockClient as unknown as CloudWatchLogsClient;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date("2025-01-02T03:04:05Z"));
+		mockClient.send.mockResolvedValue({ logStreams: [] });
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("should reject an empty log group name", () => {
+		expect(() => LogStreamGenerator.create(client, " ")).toThrow(
+			"Log group name cannot be empty",
+		);
+	});
+
+	it("should name streams by UTC hour by default", async () => {
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamNamePrefix: "app",
+		});
+		expect(await generator.getCurrentLogStreamName()).toBe(
+			"app-2025-01-02-03-UTC",
+		);
+	});
+
+	it("should use a fixed log stream name", async () => {
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamName: "fixed",
+			logStreamNamePrefix: "ignored",
+		});
+		expect(await generator.getCurrentLogStreamName()).toBe("fixed");
+	});
+
+	it("should pass the context to a custom strategy", async () => {
+		const strategy = vi.fn(() => "custom");
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamName: strategy,
+			logStreamNamePrefix: "app",
+		});
+		expect(await generator.getCurrentLogStreamName()).toBe("custom");
+		expect(strategy).toHaveBeenCalledWith({
+			date: new Date("2025-01-02T03:04:05Z"),
+			prefix: "app",
+			hostname: expect.any(String),
+			pid: process.pid,
+		});
+	});
+
+	it("should create the stream when it does not exist", async () => {
+		const onStreamCreated = vi.fn();
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamName: "stream",
+			onStreamCreated,
+		});
+		await generator.getCurrentLogStreamName();
+		expect(DescribeLogStreamsCommand).toHaveBeenCalledWith({
+			logGroupName: "group",
+			logStreamNamePrefix: "stream",
+		});
+		expect(CreateLogStreamCommand).toHaveBeenCalledWith({
+			logGroupName: "group",
+			logStreamName: "stream",
+		});
+		expect(onStreamCreated).toHaveBeenCalledWith("stream");
+	});
+
+	it("should use a stream created by another process since it was checked", async () => {
+		const onStreamCreated = vi.fn();
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamName: "stream",
+			onStreamCreated,
+		});
+		mockClient.send
+			.mockResolvedValueOnce({ logStreams: [] })
+			.mockRejectedValueOnce(
+				Object.assign(new Error("exists"), {
+					name: "ResourceAlreadyExistsException",
+				}),
+			);
+
+		expect(await generator.getCurrentLogStreamName()).toBe("stream");
+		expect(CreateLogStreamCommand).toHaveBeenCalledTimes(1);
+		expect(onStreamCreated).not.toHaveBeenCalled();
+	});
+
+	it("should only check the stream again when its name changes", async () => {
+		const generator = LogStreamGenerator.create(client, "group", {
+			logStreamName: logStreamNameStrategies.hourly,
+		});
+		await generator.getCurrentLogStreamName();
+		await generator.getCurrentLogStreamName();
+		expect(DescribeLogStreamsCommand).toHaveBeenCalledTimes(1);
+
+		vi.setSystemTime(new Date("2025-01-02T04:00:00Z"));
+		expect(await generator.getCurrentLogStreamName()).toBe("2025-01-02-04-UTC");
+		expect(DescribeLogStreamsCommand).toHaveBeenCalledTimes(2);
+	});
+
+	describe("createLogGroup", () => {
+		it("should not create the log group unless enabled", async () => {
+			const generator = LogStreamGenerator.create(client, "group");
+			await generator.getCurrentLogStreamName();
+			expect(CreateLogGroupCommand).not.toHaveBeenCalled();
+		});
+
+		const notFound = () =>
+			Object.assign(new Error("missing"), {
+				name: "ResourceNotFoundException",
+			});
+
+		it("should not create an existing log group", async () => {
+			const generator = LogStreamGenerator.create(client, "group", {
+				createLogGroup: true,
+			});
+			await generator.getCurrentLogStreamName();
+			expect(CreateLogGroupCommand).not.toHaveBeenCalled();
+			expect(CreateLogStreamCommand).toHaveBeenCalled();
+		});
+
+		it("should create the missing log group once with retention, KMS key and tags", async () => {
+			mockClient.send.mockRejectedValueOnce(notFound());
+			const generator = LogStreamGenerator.create(client, "group", {
+				createLogGroup: {
+					retentionInDays: 14,
+					kmsKeyId: "arn:aws:kms:key",
+					tags: { team: "platform" },
+				},
+			});
+			await generator.getCurrentLogStreamName();
+			vi.setSystemTime(new Date("2025-01-02T04:00:00Z"));
+			await generator.getCurrentLogStreamName();
+
+			expect(CreateLogGroupCommand).toHaveBeenCalledTimes(1);
+			expect(CreateLogGroupCommand).toHaveBeenCalledWith({
+				logGroupName: "group",
+				kmsKeyId: "arn:aws:kms:key",
+				tags: { team: "platform" },
+			});
+			expect(PutRetentionPolicyCommand).toHaveBeenCalledWith({
+				logGroupName: "group",
+				retentionInDays: 14,
+			});
+		});
+
+		it("should leave a log group created concurrently untouched", async () => {
+			mockClient.send.mockRejectedValueOnce(notFound());
+			mockClient.send.mockImplementation(async (command) => {
+				if (command instanceof CreateLogGroupCommand) {
+					throw Object.assign(new Error("exists"), {
+						name: "ResourceAlreadyExistsException",
+					});
+				}
+				return { logStreams: [] };
+			});
+			const generator = LogStreamGenerator.create(client, "group", {
+				createLogGroup: { retentionInDays: 14 },
+			});
+			await generator.getCurrentLogStreamName();
+
+			expect(PutRetentionPolicyCommand).not.toHaveBeenCalled();
+			expect(CreateLogStreamCommand).toHaveBeenCalled();
+		});
+
+		it("should apply the retention policy again after it failed", async () => {
+			let retentionAttempts = 0;
+			mockClient.send.mockRejectedValueOnce(notFound());
+			mockClient.send.mockImplementation(async (command) => {
+				if (command instanceof CreateLogGroupCommand && retentionAttempts > 0) {
+					throw Object.assign(new Error("exists"), {
+						name: "ResourceAlreadyExistsException",
+					});
+				}
+				if (
+					command instanceof PutRetentionPolicyCommand &&
+					retentionAttempts++ === 0
+				) {
+					throw new Error("Rate exceeded");
+				}
+				return { logStreams: [] };
+			});
+			const generator = LogStreamGenerator.create(client, "group", {
+				createLogGroup: { retentionInDays: 14 },
+			});
+			await expect(generator.getCurrentLogStreamName()).rejects.toThrow(
+				"Rate exceeded",
+			);
+			await generator.getCurrentLogStreamName();
+
+			expect(PutRetentionPolicyCommand).toHaveBeenCalledTimes(2);
+			expect(CreateLogStreamCommand).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("logStreamNameStrategies", () => {
+		const ctx = {
+			date: new Date("2025-01-02T03:04:05Z"),
+			prefix: "app",
+			hostname: "host",
+			pid: 42,
+		};
+
+		it("should build daily and per-instance names", () => {
+			expect(logStreamNameStrategies.daily(ctx)).toBe("app-2025-01-02-UTC");
+			expect(logStreamNameStrategies.instance(ctx)).toBe("app-host-42");
+			expect(logStreamNameStrategies.daily({ ...ctx, prefix: "" })).toBe(
+				"2025-01-02-UTC",
+			);
+		});
+	});
+});
@@ -3,76 +3,208 @@ import {
 	CreateLogStreamCommand,
 	DescribeLogStreamsCommand,
 } from "@aws-sdk/client-cloudwatch-logs";
+import {
+	type CreateLogGroupOptions,
+	createLogGroup,
+	isResourceAlreadyExists,
+	isResourceNotFound,
+	putRetentionPolicy,
+} from "./log-group.js";
+import {
+	type LogStreamNameStrategy,
+	createLogStreamNameContext,
+	logStreamNameStrategies,
+} from "./log-stream-name.js";
+
+export type LogStreamGeneratorOptions = {
+	/**
+	 * A fixed log stream name, or a function returning the name for the current time
+	 * @default logStreamNameStrategies.hourly
+	 */
+	logStreamName?: string | LogStreamNameStrategy;
+	logStreamNamePrefix?: string;
+	/**
+	 * Create the log group when CloudWatch reports it missing
+	 */
+	createLogGroup?: boolean | CreateLogGroupOptions;
+	/**
+	 * Called after a log stream was created
+	 */
+	onStreamCreated?: (logStreamName: string) => void;
+};
 
 export class LogStreamGenerator {
 	#client: CloudWatchLogsClient;
 	#logGroupName: string;
 	#prefix: string;
-	#checkedStreams = new Set<string>();
+	#strategy: LogStreamNameStrategy;
+	#currentLogStreamName: string | null = null;
+	#createLogGroup: CreateLogGroupOptions | null;
+	/** Set once this generator created the log group, until its retention policy is applied */
+	#retentionPending = false;
+	#onStreamCreated: ((logStreamName: string) => void) | undefined;
 
 	private constructor(
 		client: CloudWatchLogsClient,
 		logGroupName: string,
-		prefix?: string,
+		opts: LogStreamGeneratorOptions,
 	) {
 		if (!logGroupName.trim()) {
 			throw new Error("Log group name cannot be empty");
 		}
+		const { logStreamName } = opts;
+		if (typeof logStreamName === "string" && !logStreamName.trim()) {
+			throw new Error("Log stream name cannot be empty");
+		}
 		this.#client = client;
 		this.#logGroupName = logGroupName;
-		this.#prefix = prefix ?? "";
+		this.#prefix = opts.logStreamNamePrefix ?? "";
+		this.#onStreamCreated = opts.onStreamCreated;
+		this.#createLogGroup =
+			opts.createLogGroup === true ? {} : opts.createLogGroup || null;
+		this.#strategy =
+			typeof logStreamName === "string"
+				? () => logStreamName
+				: (logStreamName ?? logStreamNameStrategies.hourly);
 	}
 
 	static create(
 		client: CloudWatchLogsClient,
 		logGroupName: string,
-		prefix?: string,
+		opts: LogStreamGeneratorOptions = {},
 	): LogStreamGenerator {
-		return new LogStreamGenerator(client, logGroupName, prefix);
+		return new LogStreamGenerator(client, logGroupName, opts);
 	}
 
-	#generateLogStreamName(): string {
-		const now = new Date();
-		const year = now.getUTCFullYear();
-		const month = String(now.getUTCMonth() + 1).padStart(2, "0");
-		const day = String(now.getUTCDate()).padStart(2, "0");
-		const hour = String(now.getUTCHours()).padStart(2, "0");
-		return `${this.#prefix}${this.#prefix ? "-" : ""}${year}-${month}-${day}-${hour}-UTC`;
+	/**
+	 * Returns the name of the current log stream without checking that it exists
+	 */
+	generateLogStreamName(): string {
+		const streamName = this.#strategy(createLogStreamNameContext(this.#prefix));
+		if (!streamName.trim()) {
+			throw new Error("Log stream name cannot be empty");
+		}
+		return streamName;
 	}
 
 	/**
-	 * Ensures the log stream exists. If it does not, it will be created. Uses a local cache to avoid redundant API calls.
+	 * Ensures the log stream exists. If it does not, it will be created,
+	 * along with the log group when `createLogGroup` is set and CloudWatch reports the group missing.
 	 */
 	async #ensureLogStreamExists(streamName: string): Promise<void> {
-		if (this.#checkedStreams.has(streamName)) {
-			return;
+		await this.#applyPendingRetention();
+		let doesLogStreamExist = false;
+		try {
+			const logStreams = await this.#client.send(
+				new DescribeLogStreamsCommand({
+					logGroupName: this.#logGroupName,
+					logStreamNamePrefix: streamName,
+				}),
+			);
+			doesLogStreamExist =
+				logStreams.logStreams?.some(
+					(stream) => stream.logStreamName === streamName,
+				) ?? false;
+		} catch (error) {
+			if (
+				!isResourceNotFound(error) ||
+				!(await this.#createMissingLogGroup())
+			) {
+				throw error;
+			}
 		}
-		const logStreams = await this.#client.send(
-			new DescribeLogStreamsCommand({
-				logGroupName: this.#logGroupName,
-				logStreamNamePrefix: streamName,
-			}),
-		);
-		const doesLogStreamExist = logStreams.logStreams?.some(
-			(stream) => stream.logStreamName === streamName,
-		);
 		if (!doesLogStreamExist) {
+			let created: boolean;
+			try {
+				created = await this.#createLogStream(streamName);
+			} catch (error) {
+				if (
+					!isResourceNotFound(error) ||
+					!(await this.#createMissingLogGroup())
+				) {
+					throw error;
+				}
+				created = await this.#createLogStream(streamName);
+			}
+			if (created) {
+				this.#onStreamCreated?.(streamName);
+			}
+		}
+	}
+
+	/**
+	 * Creates the log stream. One created since it was checked, e.g. by another process
+	 * writing to the same stream, is left as is.
+	 * @returns Whether the log stream was created
+	 */
+	async #createLogStream(streamName: string): Promise<boolean> {
+		try {
 			await this.#client.send(
 				new CreateLogStreamCommand({
 					logGroupName: this.#logGroupName,
 					logStreamName: streamName,
 				}),
 			);
+		} catch (error) {
+			if (isResourceAlreadyExists(error)) {
+				return false;
+			}
+			throw error;
 		}
-		this.#checkedStreams.add(streamName);
+		return true;
 	}
 
 	/**
-	 * Returns the current log stream name. Ensures the log stream exists.
+	 * Creates the log group CloudWatch reported missing, when enabled
+	 * @returns Whether the log group now exists
+	 */
+	async #createMissingLogGroup(): Promise<boolean> {
+		if (!this.#createLogGroup) {
+			return false;
+		}
+		const created = await createLogGroup(
+			this.#client,
+			this.#logGroupName,
+			this.#createLogGroup,
+		);
+		if (created && this.#createLogGroup.retentionInDays !== undefined) {
+			this.#retentionPending = true;
+		}
+		await this.#applyPendingRetention();
+		return true;
+	}
+
+	/**
+	 * Applies the retention policy of a log group this generator created.
+	 * Kept pending until it succeeds, as the group already exists when a failed attempt is retried.
+	 */
+	async #applyPendingRetention() {
+		const retentionInDays = this.#createLogGroup?.retentionInDays;
+		if (!this.#retentionPending || retentionInDays === undefined) {
+			return;
+		}
+		await putRetentionPolicy(this.#client, this.#logGroupName, retentionInDays);
+		this.#retentionPending = false;
+	}
+
+	/**
+	 * Forgets the current log stream, so the next call checks it again, e.g. after CloudWatch
+	 * reported it or its log group missing
+	 */
+	forgetLogStream(): void {
+		this.#currentLogStreamName = null;
+	}
+
+	/**
+	 * Returns the current log stream name. Ensures the log stream exists,
+	 * but only calls the API when the name differs from the previous one.
 	 */
 	async getCurrentLogStreamName(): Promise<string> {
-		const streamName = this.#generateLogStreamName();
-		await this.#ensureLogStreamExists(streamName);
+		const streamName = this.generateLogStreamName();
+		if (streamName !== this.#currentLogStreamName) {
+			await this.#ensureLogStreamExists(streamName);
+			this.#currentLogStreamName = streamName;
+		}
 		return streamName;
 	}
 }
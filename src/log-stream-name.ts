@@ -0,0 +1,53 @@
+import { hostname } from "node:os";
+
+export type LogStreamNameContext = {
+	/** The current time */
+	date: Date;
+	/** The `logStreamNamePrefix` option, or an empty string */
+	prefix: string;
+	hostname: string;
+	pid: number;
+};
+
+/**
+ * Returns the name of the log stream events should be sent to. Called before every batch.
+ */
+export type LogStreamNameStrategy = (ctx: LogStreamNameContext) => string;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const withPrefix = (prefix: string, name: string) =>
+	`${prefix}${prefix ? "-" : ""}${name}`;
+
+/**
+ * Built-in log stream naming strategies
+ */
+export const logStreamNameStrategies = {
+	/**
+	 * One stream per UTC hour: `<prefix>-YYYY-MM-DD-HH-UTC`
+	 */
+	hourly: ({ date, prefix }) =>
+		withPrefix(
+			prefix,
+			`${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}-${pad(date.getUTCHours())}-UTC`,
+		),
+	/**
+	 * One stream per UTC day: `<prefix>-YYYY-MM-DD-UTC`
+	 */
+	daily: ({ date, prefix }) =>
+		withPrefix(
+			prefix,
+			`${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}-UTC`,
+		),
+	/**
+	 * One stream per process: `<prefix>-<hostname>-<pid>`
+	 */
+	instance: ({ prefix, hostname, pid }) =>
+		withPrefix(prefix, `${hostname}-${pid}`),
+} satisfies Record<string, LogStreamNameStrategy>;
+
+export function createLogStreamNameContext(
+	prefix: string,
+): LogStreamNameContext {
+	return { date: new Date(), prefix, hostname: hostname(), pid: process.pid };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { jsonMessageFormatter } from "./message-formatter";
+
+describe("jsonMessageFormatter", () => {
+	const format = jsonMessageFormatter();
+
+	it("should serialize level, message and metadata with leading fields first", () => {
+		const message = format({
+			requestId: "abc",
+			message: "hello",
+			level: "info",
+			timestamp: "2025-01-02T03:04:05.678Z",
+			[Symbol.for("level")]: "info",
+		});
+		expect(message).toBe(
+			'{"timestamp":"2025-01-02T03:04:05.678Z","level":"info","message":"hello","requestId":"abc"}',
+		);
+	});
+
+	it("should wrap string entries", () => {
+		expect(format("hello")).toBe('{"message":"hello"}');
+	});
+
+	it("should expand errors with their stack", () => {
+		const error = Object.assign(new Error("boom"), { code: "E_BOOM" });
+		const parsed = JSON.parse(
+			format({ level: "error", message: "failed", error }),
+		);
+		expect(parsed.error).toEqual({
+			name: "Error",
+			message: "boom",
+			stack: expect.stringContaining("Error: boom"),
+			code: "E_BOOM",
+		});
+	});
+
+	it("should handle circular references, BigInt and Dates", () => {
+		const meta: Record<string, unknown> = { count: 10n };
+		meta.self = meta;
+		const shared = { id: 1 };
+		const parsed = JSON.parse(
+			format({
+				message: "values",
+				meta,
+				at: new Date("2025-01-02T03:04:05.678Z"),
+				pair: [shared, shared],
+			}),
+		);
+		expect(parsed.meta).toEqual({ count: "10", self: "[Circular]" });
+		expect(parsed.at).toBe("2025-01-02T03:04:05.678Z");
+		expect(parsed.pair).toEqual([{ id: 1 }, { id: 1 }]);
+	});
+
+	it("should apply include and exclude lists", () => {
+		const info = {
+			level: "info",
+			message: "hello",
+			user: "alice",
+			secret: "x",
+		};
+		expect(
+			JSON.parse(jsonMessageFormatter({ include: ["message", "user"] })(info)),
+		).toEqual({ message: "hello", user: "alice" });
+		expect(
+			JSON.parse(jsonMessageFormatter({ exclude: ["secret"] })(info)),
+		).toEqual({ level: "info", message: "hello", user: "alice" });
+	});
+});
@@ -0,0 +1,90 @@
+import type { LogInfo } from "./log-info.js";
+
+/**
+ * Turns a log entry into the message sent to CloudWatch
+ */
+export type MessageFormatter = (info: LogInfo) => string;
+
+export type JsonMessageFormatterOptions = {
+	/**
+	 * Only keep these top-level fields
+	 */
+	include?: string[];
+	/**
+	 * Drop these top-level fields
+	 */
+	exclude?: string[];
+};
+
+// Fields written first, so they line up across events
+const LEADING_FIELDS = ["timestamp", "level", "message"];
+
+/**
+ * Serializes a log entry, including its metadata, as a single line of JSON that
+ * CloudWatch Logs Insights discovers fields from.
+ * Errors are expanded to their name, message and stack, BigInts become strings
+ * and circular references are replaced with `"[Circular]"`.
+ */
+export function jsonMessageFormatter(
+	opts: JsonMessageFormatterOptions = {},
+): MessageFormatter {
+	const include = opts.include ? new Set(opts.include) : null;
+	const exclude = new Set(opts.exclude);
+
+	return (info) => {
+		const fields: Record<string, unknown> =
+			typeof info === "string" ? { message: info } : info;
+		const keys = [
+			...LEADING_FIELDS.filter((key) => key in fields),
+			...Object.keys(fields).filter((key) => !LEADING_FIELDS.includes(key)),
+		].filter((key) => (!include || include.has(key)) && !exclude.has(key));
+
+		const output: Record<string, unknown> = {};
+		const ancestors = new Set<object>([fields]);
+		for (const key of keys) {
+			output[key] = normalize(fields[key], ancestors);
+		}
+		return JSON.stringify(output);
+	};
+}
+
+/**
+ * Converts a value to something `JSON.stringify` can serialize without throwing or losing information
+ */
+function normalize(value: unknown, ancestors: Set<object>): unknown {
+	if (typeof value === "bigint") {
+		return value.toString();
+	}
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+	if (ancestors.has(value)) {
+		return "[Circular]";
+	}
+	const { toJSON } = value as { toJSON?: unknown };
+	if (!(value instanceof Error) && typeof toJSON === "function") {
+		// Dates, Buffers and other values that define their own serialization
+		return normalize(toJSON.call(value), ancestors);
+	}
+
+	ancestors.add(value);
+	let result: unknown;
+	if (Array.isArray(value)) {
+		result = value.map((item) => normalize(item, ancestors));
+	} else {
+		const entries: [string, unknown][] =
+			value instanceof Error
+				? [
+						["name", value.name],
+						["message", value.message],
+						["stack", value.stack],
+						...Object.entries(value),
+					]
+				: Object.entries(value);
+		result = Object.fromEntries(
+			entries.map(([key, item]) => [key, normalize(item, ancestors)]),
+		);
+	}
+	ancestors.delete(value);
+	return result;
+}
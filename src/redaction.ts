@@ -0,0 +1,287 @@
+import { createHash, createHmac } from "node:crypto";
+import { type LogInfo, MESSAGE_SYMBOL } from "./log-info.js";
+
+/**
+ * What to do with a sensitive value.
+ * - `"mask"`: replace it with `[REDACTED]`
+ * - `"hash"`: replace it with a SHA-256 prefix, so equal values can still be correlated.
+ *   Without a `secret`, short or guessable values such as card numbers or emails can be recovered by hashing
+ *   candidates, so pass one to hash with HMAC-SHA256 instead.
+ * - `"drop"`: remove it (the matched text, or the key for `path` rules)
+ */
+export type RedactionAction = "mask" | "hash" | "drop";
+
+export type RedactionDetector =
+	| "awsAccessKeyId"
+	| "awsSecretAccessKey"
+	| "jwt"
+	| "creditCard"
+	| "email"
+	| "bearerToken";
+
+export type RedactionRule = {
+	action?: RedactionAction;
+	/** Key for the `"hash"` action, which then uses HMAC-SHA256 instead of a plain SHA-256 */
+	secret?: string;
+} & (
+	| {
+			/** A built-in detector applied to every string in the log entry */
+			detector: RedactionDetector;
+	  }
+	| {
+			/** A custom pattern applied to every string in the log entry. Must have the global flag. */
+			pattern: RegExp;
+	  }
+	| {
+			/** A dot-separated key path in the log entry, e.g. `user.password`. `*` matches any key. */
+			path: string;
+	  }
+);
+
+export type Redactor = (info: LogInfo) => LogInfo;
+
+const DETECTORS: Record<RedactionDetector, RegExp> = {
+	awsAccessKeyId: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g,
+	// 40 character secrets are only recognizable next to their key name
+	awsSecretAccessKey:
+		/(?<=(?:aws_?)?secret_?access_?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi,
+	jwt: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+	// Candidates are checked against the card prefixes and the Luhn checksum
+	creditCard: /\b\d(?:[ -]?\d){12,18}\b/g,
+	email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+	bearerToken: /(?<=\bBearer\s+)[A-Za-z0-9\-._~+/]+=*/gi,
+};
+
+/**
+ * Issuer prefixes and the lengths of their card numbers
+ */
+const CARD_NUMBER_FORMATS: { prefix: RegExp; lengths: number[] }[] = [
+	// Visa
+	{ prefix: /^4/, lengths: [13, 16, 19] },
+	// Mastercard
+	{
+		prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d{2}|27[01]\d|2720)/,
+		lengths: [16],
+	},
+	// American Express
+	{ prefix: /^3[47]/, lengths: [15] },
+	// Diners Club
+	{ prefix: /^3(?:0[0-5]|[689])/, lengths: [14, 15, 16, 17, 18, 19] },
+	// JCB
+	{ prefix: /^35(?:2[89]|[3-8]\d)/, lengths: [16, 17, 18, 19] },
+	// Discover and UnionPay
+	{ prefix: /^(?:6011|64[4-9]|65|62)/, lengths: [16, 17, 18, 19] },
+];
+
+type PatternRule = {
+	pattern: RegExp;
+	action: RedactionAction;
+	secret: string | undefined;
+	/** Further check of a match, e.g. the Luhn checksum of card numbers */
+	accepts: ((match: string) => boolean) | null;
+};
+type PathRule = {
+	path: string[];
+	action: RedactionAction;
+	secret: string | undefined;
+};
+
+/**
+ * Builds a function returning a redacted copy of a log entry. The entry passed in is not modified.
+ */
+export function createRedactor(rules: RedactionRule[]): Redactor {
+	const patternRules: PatternRule[] = [];
+	const pathRules: PathRule[] = [];
+	for (const rule of rules) {
+		const action = rule.action ?? "mask";
+		const { secret } = rule;
+		if ("detector" in rule) {
+			patternRules.push({
+				pattern: DETECTORS[rule.detector],
+				action,
+				secret,
+				accepts: rule.detector === "creditCard" ? isCardNumber : null,
+			});
+		} else if ("pattern" in rule) {
+			if (!rule.pattern.global) {
+				throw new Error(
+					`Redaction pattern ${rule.pattern} must have the global flag`,
+				);
+			}
+			patternRules.push({
+				pattern: rule.pattern,
+				action,
+				secret,
+				accepts: null,
+			});
+		} else {
+			pathRules.push({ path: rule.path.split("."), action, secret });
+		}
+	}
+
+	const redactString = (value: string): string => {
+		let result = value;
+		for (const { pattern, action, secret, accepts } of patternRules) {
+			result = result.replace(pattern, (match) =>
+				accepts && !accepts(match) ? match : replacement(match, action, secret),
+			);
+		}
+		return result;
+	};
+
+	return (info) => {
+		if (typeof info === "string") {
+			return redactString(info);
+		}
+		const redacted = redactValue(info, redactString, new WeakMap()) as Exclude<
+			LogInfo,
+			string
+		>;
+		for (const rule of pathRules) {
+			applyPathRule(redacted, rule);
+		}
+		// Formats such as winston.format.json() have already serialized the entry
+		const message = redacted[MESSAGE_SYMBOL];
+		if (pathRules.length > 0 && typeof message === "string") {
+			redacted[MESSAGE_SYMBOL] = redactSerializedMessage(message, pathRules);
+		}
+		return redacted;
+	};
+}
+
+function replacement(
+	value: string,
+	action: RedactionAction,
+	secret: string | undefined,
+): string {
+	switch (action) {
+		case "mask":
+			return "[REDACTED]";
+		case "hash": {
+			const hash =
+				secret !== undefined
+					? createHmac("sha256", secret)
+					: createHash("sha256");
+			return `[HASH:${hash.update(value).digest("hex").slice(0, 16)}]`;
+		}
+		case "drop":
+			return "";
+	}
+}
+
+function isCardNumber(candidate: string): boolean {
+	const digits = candidate.replace(/\D/g, "");
+	return (
+		CARD_NUMBER_FORMATS.some(
+			({ prefix, lengths }) =>
+				prefix.test(digits) && lengths.includes(digits.length),
+		) && passesLuhnCheck(digits)
+	);
+}
+
+function passesLuhnCheck(digits: string): boolean {
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+/**
+ * Deep-copies plain objects, arrays and errors, redacting every string on the way.
+ * Errors are copied to plain objects holding their name, message and stack.
+ */
+function redactValue(
+	value: unknown,
+	redactString: (value: string) => string,
+	copies: WeakMap<object, unknown>,
+): unknown {
+	if (typeof value === "string") {
+		return redactString(value);
+	}
+	if (value === null || typeof value !== "object") {
+		return value;
+	}
+	if (copies.has(value)) {
+		return copies.get(value);
+	}
+	if (Array.isArray(value)) {
+		const copy: unknown[] = [];
+		copies.set(value, copy);
+		for (const item of value) {
+			copy.push(redactValue(item, redactString, copies));
+		}
+		return copy;
+	}
+	const isError = value instanceof Error;
+	const prototype = Object.getPrototypeOf(value);
+	if (!isError && prototype !== Object.prototype && prototype !== null) {
+		// Dates, Buffers, class instances and the like are kept as they are
+		return value;
+	}
+
+	const copy: Record<string | symbol, unknown> = {};
+	copies.set(value, copy);
+	if (isError) {
+		copy.name = value.name;
+		copy.message = redactString(value.message);
+		copy.stack = value.stack && redactString(value.stack);
+	}
+	for (const key of Reflect.ownKeys(value)) {
+		const descriptor = Object.getOwnPropertyDescriptor(value, key);
+		if (descriptor?.enumerable) {
+			copy[key] = redactValue(descriptor.value, redactString, copies);
+		}
+	}
+	return copy;
+}
+
+function applyPathRule(target: unknown, rule: PathRule): void {
+	if (target === null || typeof target !== "object") {
+		return;
+	}
+	const [head, ...rest] = rule.path;
+	if (head === undefined) {
+		return;
+	}
+	const record = target as Record<string, unknown>;
+	const keys = head === "*" ? Object.keys(record) : [head];
+	for (const key of keys) {
+		if (!Object.hasOwn(record, key)) {
+			continue;
+		}
+		if (rest.length > 0) {
+			applyPathRule(record[key], { ...rule, path: rest });
+		} else if (rule.action === "drop") {
+			delete record[key];
+		} else {
+			const value = record[key];
+			record[key] = replacement(
+				typeof value === "string" ? value : (JSON.stringify(value) ?? ""),
+				rule.action,
+				rule.secret,
+			);
+		}
+	}
+}
+
+function redactSerializedMessage(message: string, pathRules: PathRule[]) {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(message);
+	} catch {
+		return message;
+	}
+	if (parsed === null || typeof parsed !== "object") {
+		return message;
+	}
+	for (const rule of pathRules) {
+		applyPathRule(parsed, rule);
+	}
+	return JSON.stringify(parsed);
+}
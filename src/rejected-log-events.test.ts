@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { groupRejectedLogEvents } from "./rejected-log-events";
+
+const batch = [0, 1, 2, 3, 4, 5].map((i) => ({
+	message: `message ${i}`,
+	timestamp: i,
+}));
+
+describe("groupRejectedLogEvents", () => {
+	it("should return no groups when nothing was rejected", () => {
+		expect(groupRejectedLogEvents(batch, undefined).size).toBe(0);
+		expect(groupRejectedLogEvents(batch, {}).size).toBe(0);
+	});
+
+	it("should treat tooNewLogEventStartIndex as inclusive", () => {
+		const groups = groupRejectedLogEvents(batch, {
+			tooNewLogEventStartIndex: 4,
+		});
+		expect(groups.get("tooNew")?.map((event) => event.timestamp)).toEqual([
+			4, 5,
+		]);
+	});
+
+	it("should treat tooOld and expired end indexes as exclusive", () => {
+		const groups = groupRejectedLogEvents(batch, {
+			expiredLogEventEndIndex: 1,
+			tooOldLogEventEndIndex: 3,
+		});
+		expect(groups.get("expired")?.map((event) => event.timestamp)).toEqual([0]);
+		expect(groups.get("tooOld")?.map((event) => event.timestamp)).toEqual([
+			1, 2,
+		]);
+		expect(groups.has("tooNew")).toBe(false);
+	});
+});
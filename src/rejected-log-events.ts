@@ -0,0 +1,54 @@
+import type { RejectedLogEventsInfo } from "@aws-sdk/client-cloudwatch-logs";
+import type { LogEvent } from "./log-queue.js";
+
+export type RejectionReason = "tooOld" | "tooNew" | "expired";
+
+export type RejectedLogEvents = {
+	reason: RejectionReason;
+	logEvents: LogEvent[];
+	logGroupName: string;
+	logStreamName: string;
+};
+
+/**
+ * What to do with events CloudWatch rejected.
+ * - `"drop"`: only emit the `rejected` event (default)
+ * - `"retimestamp"`: stamp too old / too new events with the current time and queue them again
+ * - a function: hand the rejected events to a fallback handler
+ */
+export type RejectedLogEventsPolicy =
+	| "drop"
+	| "retimestamp"
+	| ((rejected: RejectedLogEvents) => void | Promise<void>);
+
+/**
+ * Groups the events of a batch by the reason CloudWatch rejected them.
+ * `tooNewLogEventStartIndex` is inclusive, `tooOldLogEventEndIndex` and `expiredLogEventEndIndex` are exclusive.
+ */
+export function groupRejectedLogEvents(
+	batch: LogEvent[],
+	info: RejectedLogEventsInfo | undefined,
+): Map<RejectionReason, LogEvent[]> {
+	const groups = new Map<RejectionReason, LogEvent[]>();
+	if (!info) {
+		return groups;
+	}
+	const tooNewStart = info.tooNewLogEventStartIndex ?? batch.length;
+	const tooOldEnd = info.tooOldLogEventEndIndex ?? 0;
+	const expiredEnd = info.expiredLogEventEndIndex ?? 0;
+
+	batch.forEach((event, index) => {
+		let reason: RejectionReason | undefined;
+		if (index >= tooNewStart) {
+			reason = "tooNew";
+		} else if (index < expiredEnd) {
+			reason = "expired";
+		} else if (index < tooOldEnd) {
+			reason = "tooOld";
+		}
+		if (reason) {
+			groups.set(reason, [...(groups.get(reason) ?? []), event]);
+		}
+	});
+	return groups;
+}
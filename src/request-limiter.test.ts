@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RequestLimiter } from "./request-limiter";
+
+describe("RequestLimiter", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	const deferred = () => {
+		let resolve: () => void = () => {};
+		const promise = new Promise<void>((r) => {
+			resolve = r;
+		});
+		return { promise, resolve };
+	};
+
+	it("should cap the number of requests in flight", async () => {
+		const limiter = new RequestLimiter({ maxConcurrentRequests: 2 });
+		const requests = [deferred(), deferred(), deferred()];
+		const started: number[] = [];
+		const runs = requests.map((request, index) =>
+			limiter.run(async () => {
+				started.push(index);
+				await request.promise;
+			}),
+		);
+
+		await vi.advanceTimersByTimeAsync(0);
+		expect(started).toEqual([0, 1]);
+		expect(limiter.active()).toBe(2);
+
+		requests[0]?.resolve();
+		await vi.advanceTimersByTimeAsync(0);
+		expect(started).toEqual([0, 1, 2]);
+
+		requests[1]?.resolve();
+		requests[2]?.resolve();
+		await Promise.all(runs);
+		expect(limiter.active()).toBe(0);
+	});
+
+	it("should cap the rate at which requests start", async () => {
+		const limiter = new RequestLimiter({ maxRequestsPerSecond: 2 });
+		const started: number[] = [];
+		const runs = [0, 1, 2, 3].map((index) =>
+			limiter.run(async () => {
+				started.push(Date.now());
+			}),
+		);
+		const start = Date.now();
+
+		await vi.advanceTimersByTimeAsync(0);
+		// A burst of maxRequestsPerSecond is allowed right away
+		expect(started).toHaveLength(2);
+
+		await vi.advanceTimersByTimeAsync(1000);
+		await Promise.all(runs);
+		expect(started.map((time) => time - start)).toEqual([0, 0, 500, 1000]);
+	});
+
+	it("should release the slot when a request fails", async () => {
+		const limiter = new RequestLimiter({ maxConcurrentRequests: 1 });
+		const error = new Error("boom");
+		await expect(
+			limiter.run(async () => {
+				throw error;
+			}),
+		).rejects.toBe(error);
+		await expect(limiter.run(async () => "ok")).resolves.toBe("ok");
+	});
+});
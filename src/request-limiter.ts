@@ -0,0 +1,83 @@
+export type RequestLimiterOptions = {
+	/**
+	 * Maximum number of requests in flight at once
+	 * @default Infinity
+	 */
+	maxConcurrentRequests?: number;
+	/**
+	 * Maximum number of requests started per second. Bursts of up to this many requests are allowed.
+	 * @default Infinity
+	 */
+	maxRequestsPerSecond?: number;
+};
+
+/**
+ * Caps the number of requests in flight and the rate at which they start (token bucket)
+ */
+export class RequestLimiter {
+	#maxConcurrentRequests: number;
+	#maxRequestsPerSecond: number;
+	#active = 0;
+	#slotWaiters: (() => void)[] = [];
+	#tokens: number;
+	#lastRefill = Date.now();
+
+	constructor(opts: RequestLimiterOptions = {}) {
+		this.#maxConcurrentRequests =
+			opts.maxConcurrentRequests ?? Number.POSITIVE_INFINITY;
+		this.#maxRequestsPerSecond =
+			opts.maxRequestsPerSecond ?? Number.POSITIVE_INFINITY;
+		if (!(this.#maxConcurrentRequests >= 1)) {
+			throw new Error("maxConcurrentRequests must be at least 1");
+		}
+		if (!(this.#maxRequestsPerSecond > 0)) {
+			throw new Error("maxRequestsPerSecond must be greater than 0");
+		}
+		this.#tokens = Math.max(1, this.#maxRequestsPerSecond);
+	}
+
+	/**
+	 * Runs the request once a slot and a rate token are available
+	 */
+	async run<T>(request: () => Promise<T>): Promise<T> {
+		while (this.#active >= this.#maxConcurrentRequests) {
+			await new Promise<void>((resolve) => this.#slotWaiters.push(resolve));
+		}
+		this.#active++;
+		try {
+			await this.#takeToken();
+			return await request();
+		} finally {
+			this.#active--;
+			this.#slotWaiters.shift()?.();
+		}
+	}
+
+	/**
+	 * Number of requests in flight
+	 */
+	active(): number {
+		return this.#active;
+	}
+
+	async #takeToken() {
+		if (this.#maxRequestsPerSecond === Number.POSITIVE_INFINITY) {
+			return;
+		}
+		for (;;) {
+			const now = Date.now();
+			this.#tokens = Math.min(
+				Math.max(1, this.#maxRequestsPerSecond),
+				this.#tokens +
+					((now - this.#lastRefill) / 1000) * this.#maxRequestsPerSecond,
+			);
+			this.#lastRefill = now;
+			if (this.#tokens >= 1) {
+				this.#tokens--;
+				return;
+			}
+			const wait = ((1 - this.#tokens) / this.#maxRequestsPerSecond) * 1000;
+			await new Promise((resolve) => setTimeout(resolve, Math.ceil(wait)));
+		}
+	}
+}
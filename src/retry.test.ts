@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { RetryPolicy } from "./retry";
+
+const awsError = (name: string, httpStatusCode?: number) =>
+	Object.assign(new Error(name), { name, $metadata: { httpStatusCode } });
+
+describe("RetryPolicy", () => {
+	describe("isRetryable", () => {
+		it("should treat throttling and service errors as retryable", () => {
+			const policy = new RetryPolicy();
+			expect(policy.isRetryable(awsError("ThrottlingException", 400))).toBe(
+				true,
+			);
+			expect(
+				policy.isRetryable(awsError("ServiceUnavailableException", 503)),
+			).toBe(true);
+			expect(policy.isRetryable(awsError("UnknownError", 500))).toBe(true);
+		});
+
+		it("should treat network errors as retryable", () => {
+			const policy = new RetryPolicy();
+			const error = Object.assign(new Error("socket hang up"), {
+				code: "ECONNRESET",
+			});
+			expect(policy.isRetryable(error)).toBe(true);
+		});
+
+		it("should treat validation and permission errors as permanent", () => {
+			const policy = new RetryPolicy();
+			expect(
+				policy.isRetryable(awsError("InvalidParameterException", 400)),
+			).toBe(false);
+			expect(policy.isRetryable(awsError("AccessDeniedException", 400))).toBe(
+				false,
+			);
+			expect(policy.isRetryable(new Error("boom"))).toBe(false);
+			expect(policy.isRetryable("boom")).toBe(false);
+		});
+	});
+
+	describe("shouldRetry", () => {
+		it("should stop retrying after maxRetries attempts", () => {
+			const policy = new RetryPolicy({ maxRetries: 2 });
+			const error = awsError("ThrottlingException", 400);
+			expect(policy.shouldRetry(error, 0)).toBe(true);
+			expect(policy.shouldRetry(error, 1)).toBe(true);
+			expect(policy.shouldRetry(error, 2)).toBe(false);
+		});
+	});
+
+	describe("getDelay", () => {
+		it("should grow exponentially up to maxDelay without jitter", () => {
+			const policy = new RetryPolicy({
+				baseDelay: 100,
+				maxDelay: 500,
+				jitter: false,
+			});
+			expect(policy.getDelay(1)).toBe(100);
+			expect(policy.getDelay(2)).toBe(200);
+			expect(policy.getDelay(3)).toBe(400);
+			expect(policy.getDelay(4)).toBe(500);
+		});
+
+		it("should keep jittered delays within half and full of the backoff", () => {
+			const policy = new RetryPolicy({ baseDelay: 100 });
+			for (let i = 0; i < 20; i++) {
+				const delay = policy.getDelay(3);
+				expect(delay).toBeGreaterThanOrEqual(200);
+				expect(delay).toBeLessThanOrEqual(400);
+			}
+		});
+	});
+});
@@ -0,0 +1,112 @@
+export type RetryOptions = {
+	/**
+	 * Maximum number of times a failed batch is retried before it is dropped.
+	 * @default 5
+	 */
+	maxRetries?: number;
+	/**
+	 * Delay in milliseconds before the first retry. Doubles on every attempt.
+	 * @default 1000
+	 */
+	baseDelay?: number;
+	/**
+	 * Upper bound in milliseconds for the delay between retries.
+	 * @default 30000
+	 */
+	maxDelay?: number;
+	/**
+	 * Randomize the delay to avoid many processes retrying in lockstep.
+	 * @default true
+	 */
+	jitter?: boolean;
+};
+
+const RETRYABLE_ERROR_NAMES = new Set([
+	"ThrottlingException",
+	"ServiceUnavailableException",
+	"ServiceUnavailable",
+	"TooManyRequestsException",
+	"RequestLimitExceeded",
+	"InternalFailure",
+	"InternalServerError",
+	"RequestTimeout",
+	"RequestTimeoutException",
+	"TimeoutError",
+]);
+
+const RETRYABLE_NETWORK_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ECONNABORTED",
+	"ETIMEDOUT",
+	"EPIPE",
+	"ENOTFOUND",
+	"EAI_AGAIN",
+	"EHOSTUNREACH",
+	"ENETUNREACH",
+]);
+
+type ErrorLike = {
+	name?: unknown;
+	code?: unknown;
+	$retryable?: unknown;
+	$metadata?: { httpStatusCode?: number };
+};
+
+export class RetryPolicy {
+	#maxRetries: number;
+	#baseDelay: number;
+	#maxDelay: number;
+	#jitter: boolean;
+
+	constructor(opts: RetryOptions = {}) {
+		this.#maxRetries = opts.maxRetries ?? 5;
+		this.#baseDelay = opts.baseDelay ?? 1000;
+		this.#maxDelay = opts.maxDelay ?? 30000;
+		this.#jitter = opts.jitter ?? true;
+	}
+
+	/**
+	 * Whether the error is transient (throttling, service unavailability, network failure).
+	 * Anything else, such as InvalidParameterException or AccessDeniedException, is permanent.
+	 */
+	isRetryable(error: unknown): boolean {
+		if (typeof error !== "object" || error === null) {
+			return false;
+		}
+		const { name, code, $retryable, $metadata } = error as ErrorLike;
+		if ($retryable) {
+			return true;
+		}
+		if (typeof name === "string" && RETRYABLE_ERROR_NAMES.has(name)) {
+			return true;
+		}
+		if (typeof code === "string" && RETRYABLE_NETWORK_CODES.has(code)) {
+			return true;
+		}
+		const status = $metadata?.httpStatusCode;
+		return status === 429 || (status !== undefined && status >= 500);
+	}
+
+	/**
+	 * Whether a batch that has already been retried `attempt` times should be retried again
+	 */
+	shouldRetry(error: unknown, attempt: number): boolean {
+		return attempt < this.#maxRetries && this.isRetryable(error);
+	}
+
+	/**
+	 * Returns the delay in milliseconds before the given retry attempt (1-based)
+	 */
+	getDelay(attempt: number): number {
+		const exponential = Math.min(
+			this.#maxDelay,
+			this.#baseDelay * 2 ** Math.max(0, attempt - 1),
+		);
+		if (!this.#jitter) {
+			return exponential;
+		}
+		// Equal jitter: keep half of the delay and randomize the other half
+		return exponential / 2 + Math.random() * (exponential / 2);
+	}
+}
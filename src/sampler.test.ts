@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Sampler } from "./sampler";
+
+describe("Sampler", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("should keep a fraction of the entries per level", () => {
+		const sampler = new Sampler({ levels: { debug: 0.1 } }, vi.fn());
+		vi.spyOn(Math, "random").mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+
+		expect(sampler.sample({ level: "debug", message: "a" })).toBe(true);
+		expect(sampler.sample({ level: "debug", message: "b" })).toBe(false);
+		expect(sampler.sample({ level: "info", message: "c" })).toBe(true);
+	});
+
+	it("should prefer the rate of the message key", () => {
+		const sampler = new Sampler(
+			{ levels: { info: 1 }, keys: { "cache miss": 0 } },
+			vi.fn(),
+		);
+		expect(sampler.sample({ level: "info", message: "cache miss" })).toBe(
+			false,
+		);
+		expect(sampler.sample({ level: "info", message: "cache hit" })).toBe(true);
+	});
+
+	it("should read the level winston keeps uncolorized", () => {
+		const sampler = new Sampler({ levels: { debug: 0 } }, vi.fn());
+		expect(
+			sampler.sample({
+				level: "\u001b[34mdebug\u001b[39m",
+				[Symbol.for("level")]: "debug",
+				message: "a",
+			}),
+		).toBe(false);
+	});
+
+	it("should summarize entries over the rate limit once the interval ends", () => {
+		const onSuppressed = vi.fn();
+		const sampler = new Sampler(
+			{
+				rateLimit: { limit: 2, interval: 1000 },
+				key: (info) => (typeof info === "string" ? info : String(info.code)),
+			},
+			onSuppressed,
+		);
+		const entry = (n: number) => ({
+			level: "warn",
+			message: `retry ${n}`,
+			code: "E1",
+		});
+
+		expect(sampler.sample(entry(1))).toBe(true);
+		expect(sampler.sample(entry(2))).toBe(true);
+		expect(sampler.sample(entry(3))).toBe(false);
+		expect(sampler.sample(entry(4))).toBe(false);
+		expect(onSuppressed).not.toHaveBeenCalled();
+
+		vi.advanceTimersByTime(1000);
+		expect(onSuppressed).toHaveBeenCalledWith({
+			key: "E1",
+			count: 2,
+			info: entry(3),
+		});
+		expect(sampler.sample(entry(5))).toBe(true);
+	});
+
+	it("should report suppressed entries right away on flush", () => {
+		const onSuppressed = vi.fn();
+		const sampler = new Sampler(
+			{ rateLimit: { limit: 1, interval: 60000 } },
+			onSuppressed,
+		);
+		sampler.sample("same");
+		sampler.sample("same");
+		sampler.flush();
+		expect(onSuppressed).toHaveBeenCalledWith({
+			key: "same",
+			count: 1,
+			info: "same",
+		});
+		vi.advanceTimersByTime(60000);
+		expect(onSuppressed).toHaveBeenCalledTimes(1);
+	});
+});
@@ -0,0 +1,145 @@
+import { type LogInfo, getLevel } from "./log-info.js";
+
+export type SamplingOptions = {
+	/**
+	 * Fraction of entries kept per level, from 0 to 1, e.g. `{ debug: 0.1 }`. Levels not listed are all kept.
+	 */
+	levels?: Record<string, number>;
+	/**
+	 * Fraction of entries kept per message key, from 0 to 1. Takes precedence over `levels`.
+	 */
+	keys?: Record<string, number>;
+	/**
+	 * Returns the key grouping similar entries, for `keys` and `rateLimit`
+	 * @default The entry's message
+	 */
+	key?: (info: LogInfo) => string | undefined;
+	/**
+	 * Keep at most `limit` entries with the same key per `interval` milliseconds.
+	 * The entries over the limit are suppressed and summarized once the interval is over.
+	 */
+	rateLimit?: { limit: number; interval: number };
+};
+
+export type SuppressedLogEntries = {
+	key: string;
+	count: number;
+	/** The first entry that was suppressed, e.g. to route the summary like it */
+	info: LogInfo;
+};
+
+type RateLimitWindow = {
+	start: number;
+	kept: number;
+	suppressed: number;
+	info: LogInfo | null;
+	timer: NodeJS.Timeout | null;
+};
+
+/**
+ * Decides which log entries to keep, by sampling rate and by rate limit
+ */
+export class Sampler {
+	#levels: Record<string, number>;
+	#keys: Record<string, number>;
+	#getKey: (info: LogInfo) => string | undefined;
+	#rateLimit: { limit: number; interval: number } | null;
+	#windows = new Map<string, RateLimitWindow>();
+	#lastSweep = Date.now();
+	#onSuppressed: (suppressed: SuppressedLogEntries) => void;
+
+	constructor(
+		opts: SamplingOptions,
+		onSuppressed: (suppressed: SuppressedLogEntries) => void,
+	) {
+		this.#levels = opts.levels ?? {};
+		this.#keys = opts.keys ?? {};
+		this.#getKey =
+			opts.key ?? ((info) => (typeof info === "string" ? info : info.message));
+		this.#rateLimit = opts.rateLimit ?? null;
+		this.#onSuppressed = onSuppressed;
+	}
+
+	/**
+	 * Whether the entry should be sent
+	 */
+	sample(info: LogInfo): boolean {
+		const key = this.#getKey(info);
+		const level = getLevel(info);
+		const rate =
+			(key !== undefined ? this.#keys[key] : undefined) ??
+			(level !== undefined ? this.#levels[level] : undefined) ??
+			1;
+		if (rate < 1 && Math.random() >= rate) {
+			return false;
+		}
+		if (!this.#rateLimit || key === undefined) {
+			return true;
+		}
+
+		const now = Date.now();
+		this.#sweep(now, this.#rateLimit.interval);
+		let window = this.#windows.get(key);
+		if (!window || now - window.start >= this.#rateLimit.interval) {
+			if (window) {
+				this.#close(key, window);
+			}
+			window = { start: now, kept: 0, suppressed: 0, info: null, timer: null };
+			this.#windows.set(key, window);
+		}
+		if (window.kept < this.#rateLimit.limit) {
+			window.kept++;
+			return true;
+		}
+		window.suppressed++;
+		if (!window.timer) {
+			const current = window;
+			window.info = info;
+			window.timer = setTimeout(
+				() => this.#close(key, current),
+				current.start + this.#rateLimit.interval - now,
+			);
+			window.timer.unref();
+		}
+		return false;
+	}
+
+	/**
+	 * Reports the entries suppressed so far without waiting for their interval to end
+	 */
+	flush(): void {
+		for (const [key, window] of this.#windows) {
+			this.#close(key, window);
+		}
+	}
+
+	/**
+	 * Forgets the windows that are over, at most once per interval, so keys seen once do not pile up
+	 */
+	#sweep(now: number, interval: number) {
+		if (now - this.#lastSweep < interval) {
+			return;
+		}
+		this.#lastSweep = now;
+		for (const [key, window] of this.#windows) {
+			if (now - window.start >= interval) {
+				this.#close(key, window);
+			}
+		}
+	}
+
+	#close(key: string, window: RateLimitWindow) {
+		if (window.timer) {
+			clearTimeout(window.timer);
+			window.timer = null;
+		}
+		if (this.#windows.get(key) === window) {
+			this.#windows.delete(key);
+		}
+		if (window.suppressed > 0 && window.info !== null) {
+			const { suppressed: count, info } = window;
+			window.suppressed = 0;
+			this.#onSuppressed({ key, count, info });
+		}
+	}
+}
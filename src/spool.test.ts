@@ -0,0 +1,118 @@
+import { appendFileSync, mkdtempSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Spool } from "./spool";
+
+describe("Spool", () => {
+	let directory: string;
+
+	const segments = () => readdirSync(directory).sort();
+	const event = (message: string) => ({ message, timestamp: 1000 });
+
+	beforeEach(() => {
+		directory = mkdtempSync(join(tmpdir(), "spool-test-"));
+	});
+	afterEach(() => {
+		rmSync(directory, { recursive: true, force: true });
+	});
+
+	it("should delete a segment once all of its events are acked", () => {
+		const spool = Spool.create({ directory });
+		const first = event("message 1");
+		const second = event("message 2");
+		for (const queued of [first, second]) {
+			const segment = spool.write({ route: {}, ...queued });
+			spool.bind(queued, segment);
+			spool.release(segment);
+		}
+		expect(segments()).toHaveLength(1);
+
+		spool.ack([first]);
+		expect(segments()).toHaveLength(1);
+
+		spool.ack([second]);
+		expect(segments()).toHaveLength(0);
+	});
+
+	it("should keep a segment until every event of a record is acked", () => {
+		const spool = Spool.create({ directory });
+		const segment = spool.write({ route: {}, message: "ab", timestamp: 1 });
+		const parts = [event("a"), event("b")];
+		for (const part of parts) {
+			spool.bind(part, segment);
+		}
+		spool.release(segment);
+
+		spool.ack([parts[0]!]);
+		expect(segments()).toHaveLength(1);
+		spool.ack([parts[1]!]);
+		expect(segments()).toHaveLength(0);
+	});
+
+	it("should delete a segment whose record was never queued", () => {
+		const spool = Spool.create({ directory });
+		spool.release(spool.write({ route: {}, message: "a", timestamp: 1 }));
+		expect(segments()).toHaveLength(0);
+	});
+
+	it("should start a new segment when the current one is full", () => {
+		const spool = Spool.create({ directory, maxSegmentBytes: 100 });
+		for (let i = 0; i < 3; i++) {
+			spool.write({ route: {}, message: "x".repeat(50), timestamp: i });
+		}
+		expect(segments()).toHaveLength(3);
+	});
+
+	it("should replay the events left over by a previous run", () => {
+		const previous = Spool.create({ directory });
+		previous.write({
+			route: { logGroupName: "group", logStreamName: "stream" },
+			message: "message 1",
+			timestamp: 1000,
+		});
+		previous.write({ route: {}, message: "message 2", timestamp: 2000 });
+		previous.close();
+
+		const spool = Spool.create({ directory });
+		const replayed = spool.replay();
+		expect(replayed.map(({ record }) => record)).toEqual([
+			{
+				route: { logGroupName: "group", logStreamName: "stream" },
+				message: "message 1",
+				timestamp: 1000,
+			},
+			{
+				route: { logGroupName: undefined, logStreamName: undefined },
+				message: "message 2",
+				timestamp: 2000,
+			},
+		]);
+
+		const events = replayed.map(({ record, segment }) => {
+			const replayedEvent = event(record.message);
+			spool.bind(replayedEvent, segment);
+			spool.release(segment);
+			return replayedEvent;
+		});
+		spool.ack(events);
+		expect(segments()).toHaveLength(0);
+	});
+
+	it("should skip a corrupted tail", () => {
+		const previous = Spool.create({ directory });
+		previous.write({ route: {}, message: "message 1", timestamp: 1000 });
+		previous.close();
+		const [segment] = segments();
+		appendFileSync(join(directory, segment!), '{"m":"cut sho');
+
+		const replayed = Spool.create({ directory }).replay();
+		expect(replayed.map(({ record }) => record.message)).toEqual(["message 1"]);
+	});
+
+	it("should delete leftover segments without valid events", () => {
+		appendFileSync(join(directory, "segment-1.ndjson"), "garbage\n");
+		expect(Spool.create({ directory }).replay()).toHaveLength(0);
+		expect(segments()).toHaveLength(0);
+	});
+});
@@ -0,0 +1,234 @@
+import {
+	closeSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readdirSync,
+	unlinkSync,
+	writeSync,
+} from "node:fs";
+import { join } from "node:path";
+import type { LogDestinationRoute } from "./log-destination.js";
+import type { LogEvent } from "./log-queue.js";
+
+export type SpoolOptions = {
+	/**
+	 * Directory holding the segment files. Use a dedicated directory per process,
+	 * as leftover segments are replayed and deleted on startup.
+	 */
+	directory: string;
+	/**
+	 * Size in bytes after which a new segment file is started
+	 * @default 4194304 (4 MB)
+	 */
+	maxSegmentBytes?: number;
+};
+
+export type SpoolRecord = {
+	route: LogDestinationRoute;
+	message: string;
+	timestamp: number;
+	priority?: boolean;
+};
+
+/**
+ * A segment file and the number of its records and events that are not done yet.
+ * Each record holds a reservation from `write` (or `replay`) until `release`,
+ * and each event bound to the segment counts until it is acked.
+ */
+export type SpoolSegment = {
+	path: string;
+	fd: number | null;
+	bytes: number;
+	pending: number;
+};
+
+const SEGMENT_PREFIX = "segment-";
+const SEGMENT_SUFFIX = ".ndjson";
+
+/**
+ * Append-only, file-backed log of queued events, so they survive crashes and restarts.
+ * Every event is written to the current segment before it is queued. A segment file
+ * is deleted once all of its events have been sent or permanently dropped.
+ */
+export class Spool {
+	#directory: string;
+	#maxSegmentBytes: number;
+	#current: SpoolSegment | null = null;
+	#segments = new WeakMap<LogEvent, SpoolSegment>();
+	#sequence = 0;
+
+	private constructor(opts: SpoolOptions) {
+		this.#directory = opts.directory;
+		this.#maxSegmentBytes = opts.maxSegmentBytes ?? 4194304;
+	}
+
+	static create(opts: SpoolOptions): Spool {
+		mkdirSync(opts.directory, { recursive: true });
+		return new Spool(opts);
+	}
+
+	/**
+	 * Reads the segments left over by a previous run. Lines that cannot be parsed,
+	 * such as a tail cut short by a crash, are skipped.
+	 */
+	replay(): { record: SpoolRecord; segment: SpoolSegment }[] {
+		const leftovers = readdirSync(this.#directory)
+			.filter(
+				(name) =>
+					name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_SUFFIX),
+			)
+			.sort();
+
+		const replayed: { record: SpoolRecord; segment: SpoolSegment }[] = [];
+		for (const name of leftovers) {
+			const path = join(this.#directory, name);
+			const content = readFileSync(path, "utf8");
+			const segment: SpoolSegment = {
+				path,
+				fd: null,
+				bytes: Buffer.byteLength(content),
+				pending: 0,
+			};
+			for (const line of content.split("\n")) {
+				const record = this.#parseRecord(line);
+				if (record) {
+					segment.pending++;
+					replayed.push({ record, segment });
+				}
+			}
+			if (segment.pending === 0) {
+				unlinkSync(path);
+			}
+		}
+		return replayed;
+	}
+
+	/**
+	 * Appends a record to the current segment, starting a new one when it is full
+	 */
+	write(record: SpoolRecord): SpoolSegment {
+		const line = `${JSON.stringify({
+			g: record.route.logGroupName,
+			s: record.route.logStreamName,
+			m: record.message,
+			t: record.timestamp,
+			p: record.priority || undefined,
+		})}\n`;
+		const lineBytes = Buffer.byteLength(line);
+
+		if (
+			this.#current &&
+			this.#current.bytes > 0 &&
+			this.#current.bytes + lineBytes > this.#maxSegmentBytes
+		) {
+			this.#closeSegment(this.#current);
+			this.#current = null;
+		}
+		if (!this.#current) {
+			this.#current = this.#openSegment();
+		}
+		const segment = this.#current;
+		writeSync(segment.fd!, line);
+		segment.bytes += lineBytes;
+		segment.pending++;
+		return segment;
+	}
+
+	/**
+	 * Associates a queued event with the segment its record was written to.
+	 * A record may produce several events, e.g. when a message is split.
+	 */
+	bind(event: LogEvent, segment: SpoolSegment): void {
+		this.#segments.set(event, segment);
+		segment.pending++;
+	}
+
+	/**
+	 * Gives up the reservation taken by `write` or `replay`, once the record's events are bound
+	 */
+	release(segment: SpoolSegment): void {
+		segment.pending--;
+		this.#deleteIfDone(segment);
+	}
+
+	/**
+	 * Marks events as done, i.e. sent or permanently dropped, deleting segments with nothing left to send
+	 */
+	ack(events: LogEvent[]): void {
+		for (const event of events) {
+			const segment = this.#segments.get(event);
+			if (segment) {
+				this.#segments.delete(event);
+				this.release(segment);
+			}
+		}
+	}
+
+	/**
+	 * Closes the current segment. Events not sent yet stay on disk for the next run.
+	 */
+	close(): void {
+		if (this.#current) {
+			this.#closeSegment(this.#current);
+			this.#current = null;
+		}
+	}
+
+	#openSegment(): SpoolSegment {
+		const name = `${SEGMENT_PREFIX}${String(Date.now()).padStart(15, "0")}-${process.pid}-${this.#sequence++}${SEGMENT_SUFFIX}`;
+		const path = join(this.#directory, name);
+		return { path, fd: openSync(path, "a"), bytes: 0, pending: 0 };
+	}
+
+	#closeSegment(segment: SpoolSegment) {
+		if (segment.fd !== null) {
+			closeSync(segment.fd);
+			segment.fd = null;
+		}
+		this.#deleteIfDone(segment);
+	}
+
+	#deleteIfDone(segment: SpoolSegment) {
+		if (segment.pending > 0) {
+			return;
+		}
+		if (segment === this.#current) {
+			this.#current = null;
+		}
+		if (segment.fd !== null) {
+			closeSync(segment.fd);
+			segment.fd = null;
+		}
+		try {
+			unlinkSync(segment.path);
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+				throw error;
+			}
+		}
+	}
+
+	#parseRecord(line: string): SpoolRecord | null {
+		if (!line.trim()) {
+			return null;
+		}
+		try {
+			const { g, s, m, t, p } = JSON.parse(line);
+			if (typeof m !== "string" || typeof t !== "number") {
+				return null;
+			}
+			return {
+				route: {
+					logGroupName: typeof g === "string" ? g : undefined,
+					logStreamName: typeof s === "string" ? s : undefined,
+				},
+				message: m,
+				timestamp: t,
+				...(p === true && { priority: true }),
+			};
+		} catch {
+			return null;
+		}
+	}
+}
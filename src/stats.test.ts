@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { StatsCollector, formatEmbeddedMetrics } from "./stats";
+
+describe("StatsCollector", () => {
+	it("should record sends in the latency histogram", () => {
+		const collector = new StatsCollector();
+		collector.recordSent(2, 100, 20);
+		collector.recordSent(1, 50, 300);
+
+		const { eventsSent, bytesSent, flushLatency } = collector.snapshot({
+			depth: 0,
+			bytes: 0,
+		});
+		expect(eventsSent).toBe(3);
+		expect(bytesSent).toBe(150);
+		expect(flushLatency).toMatchObject({
+			count: 2,
+			sum: 320,
+			min: 20,
+			max: 300,
+		});
+		expect(flushLatency.buckets.find(({ le }) => le === 25)?.count).toBe(1);
+		expect(flushLatency.buckets.find(({ le }) => le === 500)?.count).toBe(2);
+		expect(flushLatency.buckets.at(-1)).toEqual({
+			le: Number.POSITIVE_INFINITY,
+			count: 2,
+		});
+	});
+
+	it("should reset consecutive failures after a successful send", () => {
+		const collector = new StatsCollector();
+		collector.recordFailure(new Error("first"));
+		collector.recordFailure(new Error("second"));
+		expect(collector.snapshot({ depth: 0, bytes: 0 })).toMatchObject({
+			consecutiveFailures: 2,
+			lastError: { name: "Error", message: "second" },
+		});
+
+		collector.recordSent(1, 10, 5);
+		expect(collector.snapshot({ depth: 0, bytes: 0 })).toMatchObject({
+			consecutiveFailures: 0,
+			lastError: { message: "second" },
+		});
+	});
+});
+
+describe("formatEmbeddedMetrics", () => {
+	it("should report counters as the change since the previous snapshot", () => {
+		const collector = new StatsCollector();
+		collector.recordQueued(5);
+		const previous = collector.snapshot({ depth: 5, bytes: 0 });
+		collector.recordQueued(3);
+		collector.recordSent(8, 400, 10);
+		const current = collector.snapshot({ depth: 0, bytes: 0 });
+
+		const line = JSON.parse(
+			formatEmbeddedMetrics(current, previous, {
+				namespace: "MyApp",
+				logGroupName: "/app",
+				timestamp: 1000,
+			}),
+		);
+		expect(line._aws).toMatchObject({
+			Timestamp: 1000,
+			CloudWatchMetrics: [{ Namespace: "MyApp", Dimensions: [["LogGroup"]] }],
+		});
+		expect(line).toMatchObject({
+			LogGroup: "/app",
+			EventsQueued: 3,
+			EventsSent: 8,
+			BytesSent: 400,
+			QueueDepth: 0,
+		});
+	});
+});
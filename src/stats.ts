@@ -0,0 +1,181 @@
+export type LatencyHistogram = {
+	count: number;
+	sum: number;
+	min: number | null;
+	max: number | null;
+	/**
+	 * Number of observations at or below each upper bound in milliseconds, cumulative like Prometheus buckets.
+	 * The last bucket has an upper bound of `Infinity`.
+	 */
+	buckets: { le: number; count: number }[];
+};
+
+export type TransportStats = {
+	eventsQueued: number;
+	eventsSent: number;
+	/** Events discarded by the overflow or oversize policy, or after a permanent or exhausted send failure */
+	eventsDropped: number;
+	eventsTruncated: number;
+	eventsRejected: number;
+	/** Bytes sent, counted like CloudWatch does: UTF-8 message size plus 26 bytes per event */
+	bytesSent: number;
+	/** Duration of successful PutLogEvents calls */
+	flushLatency: LatencyHistogram;
+	/** Events waiting to be sent, across all destinations */
+	queueDepth: number;
+	queueBytes: number;
+	lastError: { name: string; message: string; time: number } | null;
+	consecutiveFailures: number;
+};
+
+const LATENCY_BUCKETS = [10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+/**
+ * Counts what the transport does, for `getStats()` and the `stats` event
+ */
+export class StatsCollector {
+	#eventsQueued = 0;
+	#eventsSent = 0;
+	#eventsDropped = 0;
+	#eventsTruncated = 0;
+	#eventsRejected = 0;
+	#bytesSent = 0;
+	#latency: LatencyHistogram = {
+		count: 0,
+		sum: 0,
+		min: null,
+		max: null,
+		buckets: [...LATENCY_BUCKETS, Number.POSITIVE_INFINITY].map((le) => ({
+			le,
+			count: 0,
+		})),
+	};
+	#lastError: TransportStats["lastError"] = null;
+	#consecutiveFailures = 0;
+
+	recordQueued(count: number): void {
+		this.#eventsQueued += count;
+	}
+
+	recordDropped(count: number): void {
+		this.#eventsDropped += count;
+	}
+
+	recordTruncated(count: number): void {
+		this.#eventsTruncated += count;
+	}
+
+	recordRejected(count: number): void {
+		this.#eventsRejected += count;
+	}
+
+	/**
+	 * Records a successful PutLogEvents call
+	 */
+	recordSent(count: number, bytes: number, latency: number): void {
+		this.#eventsSent += count;
+		this.#bytesSent += bytes;
+		this.#consecutiveFailures = 0;
+
+		const histogram = this.#latency;
+		histogram.count++;
+		histogram.sum += latency;
+		histogram.min = Math.min(histogram.min ?? latency, latency);
+		histogram.max = Math.max(histogram.max ?? latency, latency);
+		for (const bucket of histogram.buckets) {
+			if (latency <= bucket.le) {
+				bucket.count++;
+			}
+		}
+	}
+
+	/**
+	 * Records a failed PutLogEvents call, whether or not it will be retried
+	 */
+	recordFailure(error: unknown): void {
+		this.#consecutiveFailures++;
+		this.#lastError = {
+			name: error instanceof Error ? error.name : "Error",
+			message: error instanceof Error ? error.message : String(error),
+			time: Date.now(),
+		};
+	}
+
+	snapshot(queue: { depth: number; bytes: number }): TransportStats {
+		return {
+			eventsQueued: this.#eventsQueued,
+			eventsSent: this.#eventsSent,
+			eventsDropped: this.#eventsDropped,
+			eventsTruncated: this.#eventsTruncated,
+			eventsRejected: this.#eventsRejected,
+			bytesSent: this.#bytesSent,
+			flushLatency: {
+				...this.#latency,
+				buckets: this.#latency.buckets.map((bucket) => ({ ...bucket })),
+			},
+			queueDepth: queue.depth,
+			queueBytes: queue.bytes,
+			lastError: this.#lastError && { ...this.#lastError },
+			consecutiveFailures: this.#consecutiveFailures,
+		};
+	}
+}
+
+export type EmbeddedMetricsOptions = {
+	/**
+	 * Log stream the metric lines are written to, in the transport's log group
+	 * @default "winston-cloudwatch-logs-metrics"
+	 */
+	logStreamName?: string;
+	/**
+	 * @default "WinstonCloudWatchLogs"
+	 */
+	namespace?: string;
+};
+
+/**
+ * Formats the change between two snapshots as a CloudWatch Embedded Metric Format line
+ */
+export function formatEmbeddedMetrics(
+	current: TransportStats,
+	previous: TransportStats | null,
+	opts: { namespace: string; logGroupName: string; timestamp: number },
+): string {
+	const delta = (key: keyof TransportStats) =>
+		(current[key] as number) - ((previous?.[key] as number | undefined) ?? 0);
+	const values = {
+		EventsQueued: delta("eventsQueued"),
+		EventsSent: delta("eventsSent"),
+		EventsDropped: delta("eventsDropped"),
+		EventsRejected: delta("eventsRejected"),
+		BytesSent: delta("bytesSent"),
+		QueueDepth: current.queueDepth,
+		ConsecutiveFailures: current.consecutiveFailures,
+	};
+	const units: Record<keyof typeof values, string> = {
+		EventsQueued: "Count",
+		EventsSent: "Count",
+		EventsDropped: "Count",
+		EventsRejected: "Count",
+		BytesSent: "Bytes",
+		QueueDepth: "Count",
+		ConsecutiveFailures: "Count",
+	};
+	return JSON.stringify({
+		_aws: {
+			Timestamp: opts.timestamp,
+			CloudWatchMetrics: [
+				{
+					Namespace: opts.namespace,
+					Dimensions: [["LogGroup"]],
+					Metrics: Object.entries(units).map(([Name, Unit]) => ({
+						Name,
+						Unit,
+					})),
+				},
+			],
+		},
+		LogGroup: opts.logGroupName,
+		...values,
+	});
+}
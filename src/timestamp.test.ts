@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseTimestamp } from "./timestamp";
+
+describe("parseTimestamp", () => {
+	it("should parse Date objects", () => {
+		expect(parseTimestamp(new Date("2025-01-02T03:04:05.678Z"))).toBe(
+			1735787045678,
+		);
+	});
+
+	it("should parse ISO 8601 strings from winston.format.timestamp()", () => {
+		expect(parseTimestamp("2025-01-02T03:04:05.678Z")).toBe(1735787045678);
+	});
+
+	it("should parse epoch milliseconds as numbers and numeric strings", () => {
+		expect(parseTimestamp(1735787045678)).toBe(1735787045678);
+		expect(parseTimestamp("1735787045678")).toBe(1735787045678);
+	});
+
+	it("should return undefined for missing or invalid values", () => {
+		expect(parseTimestamp(undefined)).toBeUndefined();
+		expect(parseTimestamp("")).toBeUndefined();
+		expect(parseTimestamp("not a date")).toBeUndefined();
+		expect(parseTimestamp(new Date("invalid"))).toBeUndefined();
+		expect(parseTimestamp(Number.NaN)).toBeUndefined();
+		expect(parseTimestamp({})).toBeUndefined();
+	});
+});
@@ -0,0 +1,19 @@
+/**
+ * Converts a timestamp found on a log entry to epoch milliseconds.
+ * Accepts Date objects, epoch milliseconds (as number or numeric string) and date strings understood by `Date.parse`,
+ * such as the ISO 8601 output of `winston.format.timestamp()`.
+ * @returns {number | undefined} Epoch milliseconds, or undefined when the value cannot be parsed
+ */
+export function parseTimestamp(value: unknown): number | undefined {
+	let timestamp: number;
+	if (value instanceof Date) {
+		timestamp = value.getTime();
+	} else if (typeof value === "number") {
+		timestamp = value;
+	} else if (typeof value === "string" && value.trim() !== "") {
+		timestamp = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+	} else {
+		return undefined;
+	}
+	return Number.isFinite(timestamp) ? Math.trunc(timestamp) : undefined;
+}